@@ -1,32 +1,48 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useVideoProcessor } from './hooks/useVideoProcessor';
-import { GifScene, OptimizationSettings, ParsedGifWithMeta } from './types';
+import { useHistory } from './hooks/useHistory';
+import { CombineClip, GifScene, OptimizationSettings, TimeRange, SourceMoment, SceneEncoding, SceneFrame, OutputFormat, PlaybackSettings } from './types';
 import GifCard from './components/GifCard';
 import Loader from './components/Loader';
 import Header from './components/Header';
-import CombineModal from './components/CombineModal';
+import CombineWorkspace from './components/CombineWorkspace';
 import GifFileUploader from './components/GifFileUploader';
-import GifCombiner from './components/GifCombiner';
 import Library from './components/Library';
 import ShareModal from './components/ShareModal';
-import { Download, Clapperboard, Film, Merge, UploadCloud, Settings, Check, X, PlayCircle, BookOpen, Share2, Save } from 'lucide-react';
-import { parseGifFile } from './utils/gifParser';
+import SceneTimeline from './components/SceneTimeline';
+import RangePicker from './components/RangePicker';
+import SceneEncodingModal from './components/SceneEncodingModal';
+import FrameMemoryIndicator from './components/FrameMemoryIndicator';
+import FormatPicker from './components/FormatPicker';
+import BrandPaletteEditor from './components/BrandPaletteEditor';
+import HistoryPanel from './components/HistoryPanel';
+import { Download, Clapperboard, Film, Merge, UploadCloud, Settings, Check, X, PlayCircle, BookOpen, Share2, Save, Scissors } from 'lucide-react';
+import { loadGifFileClips, releaseClips, sceneToClip } from './utils/combineClips';
 import { saveToLibrary, subscribeToAuthChanges } from './utils/storage';
+import { loadVideo, releaseVideo, readVideoFrames, getFrameCount, type DecodeStats } from './utils/frameSource';
+import { encodeSceneFrames, exportScene, TARGET_SIZE_OPTIONS } from './utils/sceneEncoding';
+import { createEncoderFrames, getEncoder, getEncoders } from './utils/encoders';
+import { DITHER_OPTIONS, resolveEncoderPalette } from './utils/palette';
+import { optimizeGif, LOSSY_TOLERANCE_OPTIONS } from './utils/gifOptimizer';
+import { rebuildScenesFromCuts } from './utils/sceneCuts';
+import { putFrame, loadFrame, releaseFrames } from './utils/frameStore';
+import { sanitizeFilename, triggerDownload } from './utils/download';
+import { parseStartTimeFromUrl } from './utils/timeRange';
+import { getCropLayout, getCropOffset, createReframer } from './utils/reframe';
 
 
 // This is a workaround for CDN-loaded scripts.
 declare const JSZip: any;
-declare const GIF: any;
+
+// Width of the low-resolution frames used to find the busiest area when reframing.
+const REFRAME_CANVAS_WIDTH = 48;
 
 // Fixed: Ensure 'library' is included in AppTab type to resolve type overlap errors when comparing activeTab === 'library'.
 type AppTab = 'url' | 'upload' | 'combine' | 'library';
 
-const sanitizeFilename = (name: string | null): string => {
-    if (!name) return 'download';
-    return name.trim().replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_.-]/g, '').slice(0, 50) || 'download';
-};
-
+const formatDecodeStats = (stats: DecodeStats): string =>
+    `Decoding at ${stats.framesPerSecond.toFixed(1)} frames/s (${stats.mode === 'sequential' ? 'sequential playback' : 'seeking'})`;
 
 // A robust polyfill for Promise.any, used for racing multiple API endpoints to find the fastest one.
 const promiseAny: <T>(promises: Iterable<Promise<T>>) => Promise<T> =
@@ -204,7 +220,7 @@ const OptimizationSettingsModal: React.FC<OptimizationModalProps> = ({ isOpen, o
 
     const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const { name, value } = e.target;
-        const isNumeric = ['resolution', 'frameRate', 'quality'].includes(name);
+        const isNumeric = ['resolution', 'frameRate', 'quality', 'targetSize', 'lossyTolerance', 'videoLoops', 'sceneSensitivity', 'minSceneDuration', 'maxSceneDuration'].includes(name);
         
         setTempSettings(prev => ({
             ...prev,
@@ -214,7 +230,7 @@ const OptimizationSettingsModal: React.FC<OptimizationModalProps> = ({ isOpen, o
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex items-center justify-center p-4 backdrop-blur-sm" aria-modal="true" role="dialog">
-            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-md p-6">
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
                 <h2 className="text-xl font-bold mb-2 text-gray-100">GIF Optimization Settings</h2>
                 <p className="text-gray-400 mb-6 text-sm">Adjust settings to balance quality and file size. 360p (640px) is great for sharing.</p>
                 
@@ -249,20 +265,165 @@ const OptimizationSettingsModal: React.FC<OptimizationModalProps> = ({ isOpen, o
                             <option value={20}>Optimized (Smallest File)</option>
                         </select>
                     </div>
+                    <div>
+                        <label htmlFor="targetSize" className="block text-sm font-medium text-gray-300 mb-1">Target File Size (per GIF)</label>
+                        <select name="targetSize" id="targetSize" value={tempSettings.targetSize} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            {TARGET_SIZE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">When set, colours, resolution and frame rate are lowered per GIF until it fits. Takes a few encodes per GIF.</p>
+                    </div>
                     
-                    <div className="flex items-center gap-3 mt-4 bg-gray-700/50 p-3 rounded-lg">
-                        <input 
-                            type="checkbox" 
-                            id="dither" 
-                            name="dither"
-                            checked={tempSettings.dither}
-                            onChange={(e) => setTempSettings(prev => ({ ...prev, dither: e.target.checked }))}
-                            className="w-4 h-4 text-indigo-600 bg-gray-700 border-gray-500 rounded focus:ring-indigo-500 focus:ring-offset-gray-800 cursor-pointer"
-                        />
+                    <div>
+                        <label htmlFor="dither" className="block text-sm font-medium text-gray-300 mb-1">Dithering</label>
+                        <select name="dither" id="dither" value={tempSettings.dither} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            {DITHER_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">Reduces banding but increases file size. Keep off for smallest files; Atkinson keeps flat areas cleaner.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="paletteMode" className="block text-sm font-medium text-gray-300 mb-1">Colour Palette</label>
+                        <select name="paletteMode" id="paletteMode" value={tempSettings.paletteMode} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            <option value="frame">Per Frame (Best Colours)</option>
+                            <option value="global">Shared Across All Frames (No Flicker)</option>
+                            <option value="brand">Brand Palette</option>
+                        </select>
+                        {tempSettings.paletteMode === 'brand' && (
+                            <div className="mt-2">
+                                <BrandPaletteEditor
+                                    palette={tempSettings.brandPalette}
+                                    onChange={brandPalette => setTempSettings(prev => ({ ...prev, brandPalette }))}
+                                />
+                                {tempSettings.brandPalette.length === 0 && (
+                                    <p className="text-xs text-amber-400 mt-1">Add at least one colour; until then each frame picks its own.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="checkbox"
+                                id="optimizeFrames"
+                                name="optimizeFrames"
+                                checked={tempSettings.optimizeFrames}
+                                onChange={(e) => setTempSettings(prev => ({ ...prev, optimizeFrames: e.target.checked }))}
+                                className="w-4 h-4 text-indigo-600 bg-gray-700 border-gray-500 rounded focus:ring-indigo-500 focus:ring-offset-gray-800 cursor-pointer"
+                            />
+                            <div>
+                                <label htmlFor="optimizeFrames" className="block text-sm font-medium text-white cursor-pointer">Optimize Frames</label>
+                                <p className="text-xs text-gray-400">Stores only the area that changes between frames. Biggest savings on static shots.</p>
+                            </div>
+                        </div>
+                        {tempSettings.optimizeFrames && (
+                            <div>
+                                <label htmlFor="lossyTolerance" className="block text-sm font-medium text-gray-300 mb-1">Lossy Tolerance</label>
+                                <select name="lossyTolerance" id="lossyTolerance" value={tempSettings.lossyTolerance} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                    {LOSSY_TOLERANCE_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-gray-400 mt-1">Skips colour changes this small, such as noise and compression shimmer.</p>
+                            </div>
+                        )}
+                    </div>
+                    <p className="text-xs text-gray-400">Colour settings apply to newly encoded GIFs and never split the video again. To change a GIF you already have, use Re-encode on its card.</p>
+
+                    <div className="pt-4 border-t border-gray-700 space-y-4">
+                        <h3 className="text-sm font-semibold text-gray-200">Video Export</h3>
                         <div>
-                            <label htmlFor="dither" className="block text-sm font-medium text-white cursor-pointer">Enable Dithering</label>
-                            <p className="text-xs text-gray-400">Reduces banding but increases file size. Keep off for smallest files.</p>
+                            <label htmlFor="videoLoops" className="block text-sm font-medium text-gray-300 mb-1">Loops in MP4/WebM</label>
+                            <select name="videoLoops" id="videoLoops" value={tempSettings.videoLoops} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                <option value={1}>Play Once</option>
+                                <option value={2}>2 Times</option>
+                                <option value={3}>3 Times</option>
+                                <option value={5}>5 Times</option>
+                                <option value={10}>10 Times</option>
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">Video doesn't loop on every platform, so the clip is repeated in the file itself.</p>
+                        </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-gray-700 space-y-4">
+                        <h3 className="text-sm font-semibold text-gray-200">Framing</h3>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="aspectRatio" className="block text-sm font-medium text-gray-300 mb-1">Aspect Ratio</label>
+                                <select name="aspectRatio" id="aspectRatio" value={tempSettings.aspectRatio} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                    <option value="original">Original</option>
+                                    <option value="9:16">9:16 (Stories)</option>
+                                    <option value="1:1">1:1 (Square)</option>
+                                    <option value="4:5">4:5 (Feed)</option>
+                                    <option value="16:9">16:9 (Widescreen)</option>
+                                    <option value="custom">Custom</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="reframe" className="block text-sm font-medium text-gray-300 mb-1">Crop Position</label>
+                                <select name="reframe" id="reframe" value={tempSettings.reframe} onChange={handleSelectChange} disabled={tempSettings.aspectRatio === 'original'} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 transition-all">
+                                    <option value="center">Centre</option>
+                                    <option value="smart">Smart (Follow Action)</option>
+                                </select>
+                            </div>
                         </div>
+                        {tempSettings.aspectRatio === 'custom' && (
+                            <div className="flex items-center gap-2">
+                                <input type="number" name="customAspectWidth" min={1} max={100} value={tempSettings.customAspectWidth} onChange={(e) => setTempSettings(prev => ({ ...prev, customAspectWidth: Number(e.target.value) }))} aria-label="Custom aspect width" className="w-20 bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all" />
+                                <span className="text-gray-400">:</span>
+                                <input type="number" name="customAspectHeight" min={1} max={100} value={tempSettings.customAspectHeight} onChange={(e) => setTempSettings(prev => ({ ...prev, customAspectHeight: Number(e.target.value) }))} aria-label="Custom aspect height" className="w-20 bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all" />
+                            </div>
+                        )}
+                        <p className="text-xs text-gray-400">Frames are cropped before encoding, so GIFs fit the Library's 9:16 grid or your target platform. Smart cropping follows the busiest part of each scene.</p>
+                    </div>
+
+                    <div className="pt-4 border-t border-gray-700 space-y-4">
+                        <h3 className="text-sm font-semibold text-gray-200">Scene Detection</h3>
+                        <div>
+                            <label htmlFor="sceneDetection" className="block text-sm font-medium text-gray-300 mb-1">Detection Method</label>
+                            <select name="sceneDetection" id="sceneDetection" value={tempSettings.sceneDetection} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                <option value="luma">Brightness (Fastest, hard cuts only)</option>
+                                <option value="histogram">Colour Histogram (Ignores motion)</option>
+                                <option value="edges">Edge Change (Ignores lighting changes)</option>
+                                <option value="adaptive">Adaptive (Catches fades, ignores flashes)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="sceneSensitivity" className="block text-sm font-medium text-gray-300 mb-1">Cut Sensitivity</label>
+                            <select name="sceneSensitivity" id="sceneSensitivity" value={tempSettings.sceneSensitivity} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                <option value={95}>Very High (Fast-cut edits)</option>
+                                <option value={90}>High</option>
+                                <option value={85}>Standard</option>
+                                <option value={75}>Low</option>
+                                <option value={60}>Very Low (Slow, continuous shots)</option>
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="minSceneDuration" className="block text-sm font-medium text-gray-300 mb-1">Min Scene Length</label>
+                                <select name="minSceneDuration" id="minSceneDuration" value={tempSettings.minSceneDuration} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                    <option value={0.5}>0.5s</option>
+                                    <option value={1}>1s</option>
+                                    <option value={1.5}>1.5s</option>
+                                    <option value={2}>2s</option>
+                                    <option value={3}>3s</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="maxSceneDuration" className="block text-sm font-medium text-gray-300 mb-1">Max Scene Length</label>
+                                <select name="maxSceneDuration" id="maxSceneDuration" value={tempSettings.maxSceneDuration} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                    <option value={0}>No Limit</option>
+                                    <option value={3}>3s</option>
+                                    <option value={5}>5s</option>
+                                    <option value={10}>10s</option>
+                                    <option value={15}>15s</option>
+                                    <option value={30}>30s</option>
+                                </select>
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-400">Raise sensitivity if scenes are merged together, lower it if a single shot is split up. Long shots are cut at the maximum length.</p>
                     </div>
                 </div>
 
@@ -291,18 +452,43 @@ const App: React.FC = () => {
 
     // Video to GIF state
     const [videoFile, setVideoFile] = useState<File | null>(null);
+    // The part of the video to convert. Processing waits until the user has chosen it.
+    const [clipRange, setClipRange] = useState<TimeRange | null>(null);
+    // The link the video was fetched from, recorded on scenes so they can link back to it.
+    const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+    // Start time taken from a pasted link (e.g. `?t=90`), used to prefill the range picker.
+    const [linkStartTime, setLinkStartTime] = useState<number | null>(null);
     const [scenes, setScenes] = useState<GifScene[]>([]);
-    const [isCombineModalOpen, setIsCombineModalOpen] = useState(false);
+    const [isUpdatingCuts, setIsUpdatingCuts] = useState(false);
+    const [encodingSceneId, setEncodingSceneId] = useState<string | null>(null);
+    const [reencodingSceneIds, setReencodingSceneIds] = useState<string[]>([]);
+    const [downloadFormat, setDownloadFormat] = useState<OutputFormat>('gif');
+    const [formatSizes, setFormatSizes] = useState<Partial<Record<OutputFormat, number>>>({});
+    const [isMeasuringFormats, setIsMeasuringFormats] = useState(false);
     const [fullVideoProgress, setFullVideoProgress] = useState(0);
+    const [fullVideoDecodeStats, setFullVideoDecodeStats] = useState<DecodeStats | null>(null);
     const [isFetching, setIsFetching] = useState(false);
     const [fetchError, setFetchError] = useState<string | null>(null);
     const [fetchStatus, setFetchStatus] = useState<string>('');
-    const [workerScriptUrl, setWorkerScriptUrl] = useState<string | null>(null);
     const [optimizationSettings, setOptimizationSettings] = useState<OptimizationSettings>({
         resolution: 640, // 640x360 (360p) - Significant size reduction.
         frameRate: 8,
         quality: 20, // Aggressive optimization.
-        dither: false,
+        dither: 'none',
+        paletteMode: 'frame',
+        brandPalette: [],
+        optimizeFrames: true,
+        lossyTolerance: 0,
+        targetSize: 0,
+        videoLoops: 1,
+        sceneSensitivity: 85,
+        minSceneDuration: 1,
+        maxSceneDuration: 0,
+        sceneDetection: 'luma',
+        aspectRatio: 'original',
+        customAspectWidth: 9,
+        customAspectHeight: 16,
+        reframe: 'center',
     });
     const [loadingStates, setLoadingStates] = useState({
         isZipping: false,
@@ -311,13 +497,15 @@ const App: React.FC = () => {
     });
     
     // Combine GIFs state
-    const [parsedGifs, setParsedGifs] = useState<ParsedGifWithMeta[]>([]);
+    // The clips in the combine workspace, which is open while this is set.
+    const [combineClips, setCombineClips] = useState<CombineClip[] | null>(null);
+    // Clips removed from the workspace can come back with undo, so they are only released when it closes.
+    const removedCombineClipsRef = useRef<CombineClip[]>([]);
     const [isParsingGifs, setIsParsingGifs] = useState(false);
-    const [isCombining, setIsCombining] = useState(false);
     const [gifParseError, setGifParseError] = useState<string | null>(null);
     
     // Library Sharing
-    const [shareItem, setShareItem] = useState<{ blob: Blob, name: string } | null>(null);
+    const [shareItem, setShareItem] = useState<{ blob: Blob, name: string, sources?: SourceMoment[] } | null>(null);
 
     // Auth Observer
     useEffect(() => {
@@ -327,56 +515,66 @@ const App: React.FC = () => {
         return () => unsubscribe();
     }, []);
 
-    // Create the worker script URL from a Blob to avoid CORS issues.
-    useEffect(() => {
-        let objectUrl: string | null = null;
-        const createWorkerUrl = async () => {
-            try {
-                const response = await fetch('https://cdn.jsdelivr.net/npm/gif.js@0.2.0/dist/gif.worker.js');
-                if (!response.ok) throw new Error(`Network response was not ok`);
-                const scriptText = await response.text();
-                const blob = new Blob([scriptText], { type: 'application/javascript' });
-                objectUrl = URL.createObjectURL(blob);
-                setWorkerScriptUrl(objectUrl);
-            } catch (err) {
-                console.error("Failed to create worker script URL:", err);
-                setFetchError("Failed to initialize GIF generator. Please refresh the page.");
-            }
-        };
-        createWorkerUrl();
-        return () => {
-            if (objectUrl) URL.revokeObjectURL(objectUrl);
-        };
-    }, []);
+    // Split and encoding settings are passed separately so colour tweaks don't restart splitting.
+    const {
+        resolution, frameRate, sceneSensitivity, minSceneDuration, maxSceneDuration, sceneDetection,
+        aspectRatio, customAspectWidth, customAspectHeight, reframe, quality, dither, paletteMode, brandPalette,
+        optimizeFrames, lossyTolerance, targetSize, videoLoops
+    } = optimizationSettings;
+    const splitSettings = useMemo(
+        () => ({ resolution, frameRate, sceneSensitivity, minSceneDuration, maxSceneDuration, sceneDetection, aspectRatio, customAspectWidth, customAspectHeight, reframe }),
+        [resolution, frameRate, sceneSensitivity, minSceneDuration, maxSceneDuration, sceneDetection, aspectRatio, customAspectWidth, customAspectHeight, reframe]
+    );
+    const encodingSettings = useMemo(
+        () => ({ quality, dither, paletteMode, brandPalette, optimizeFrames, lossyTolerance, targetSize }),
+        [quality, dither, paletteMode, brandPalette, optimizeFrames, lossyTolerance, targetSize]
+    );
+    const exportSettings = useMemo(() => ({ videoLoops }), [videoLoops]);
 
     const { 
         processedScenes, 
         isProcessing: isSplittingVideo, 
         progress, 
-        error: processingError 
-    } = useVideoProcessor(videoFile, workerScriptUrl, optimizationSettings, baseName);
+        error: processingError,
+        decodeStats,
+        frameScores
+    } = useVideoProcessor(videoFile, splitSettings, encodingSettings, baseName, clipRange, sourceUrl);
+
+    // Scene edits can be undone while the combine workspace is closed; it keeps its own history.
+    const sceneHistory = useHistory(combineClips === null);
+    // Why the history was last cleared while scenes stayed, shown with the history list.
+    const [sceneHistoryNotice, setSceneHistoryNotice] = useState<string | null>(null);
+    const clearSceneHistory = useCallback(() => {
+        sceneHistory.clear();
+        setSceneHistoryNotice(null);
+    }, [sceneHistory.clear]);
 
     useEffect(() => {
         if (processedScenes.length > 0) {
             setScenes(processedScenes);
+            clearSceneHistory();
         }
-    }, [processedScenes]);
+    }, [processedScenes, clearSceneHistory]);
     
     const resetVideoState = useCallback(() => {
         setVideoFile(null);
+        setClipRange(null);
+        setLinkStartTime(null);
+        setSourceUrl(null);
         setBaseName(null);
         setScenes([]);
+        clearSceneHistory();
         setFullVideoProgress(0);
+        setFullVideoDecodeStats(null);
         setIsFetching(false);
         setFetchError(null);
         setFetchStatus('');
-        setIsCombineModalOpen(false);
         setLoadingStates({
             isZipping: false,
             isZippingAll: false,
             isConvertingFullVideo: false,
         });
-    }, []);
+    }, [clearSceneHistory]);
 
     const handleFileSelect = useCallback((file: File) => {
         resetVideoState();
@@ -393,6 +591,8 @@ const App: React.FC = () => {
         if (tiktokMatch && tiktokMatch[1]) {
             setBaseName(tiktokMatch[1]);
         }
+        setLinkStartTime(parseStartTimeFromUrl(url));
+        setSourceUrl(url);
         
         try {
             const isDirectLink = /\.(mp4|webm|mov|ogg)$/i.test(url);
@@ -422,19 +622,7 @@ const App: React.FC = () => {
         setIsParsingGifs(true);
         setGifParseError(null);
         try {
-            const parsed = await Promise.all(
-                files.map(async (file, index) => {
-                    const parsedGif = await parseGifFile(file);
-                    return {
-                        ...parsedGif,
-                        id: `${Date.now()}-${index}`,
-                        name: file.name.replace(/\.gif$/i, '') || `GIF ${index + 1}`,
-                        url: URL.createObjectURL(file),
-                    };
-                })
-            );
-            setParsedGifs(parsed);
-            setIsCombining(true);
+            setCombineClips(await loadGifFileClips(files));
         } catch (error: any) {
             setGifParseError(error.message || 'An error occurred while parsing the GIFs.');
             console.error('GIF parsing failed:', error);
@@ -443,12 +631,161 @@ const App: React.FC = () => {
         }
     };
 
+    // Format sizes are shown for the scenes a download would include: the selection, or all scenes.
+    const sizedScenes = useMemo(() => {
+        const selected = scenes.filter(s => s.isSelected);
+        return selected.length > 0 ? selected : scenes;
+    }, [scenes]);
+
+    useEffect(() => {
+        // The GIF size is always known; other formats are measured on request.
+        setFormatSizes({ gif: sizedScenes.reduce((total, scene) => total + scene.encodeReport.size, 0) });
+    }, [sizedScenes, exportSettings]);
+
+    const handleMeasureFormats = async () => {
+        setIsMeasuringFormats(true);
+        try {
+            const sizes: Partial<Record<OutputFormat, number>> = {};
+            for (const { format } of getEncoders()) {
+                // Exports are cached, so the download afterwards doesn't encode again.
+                let total = 0;
+                for (const scene of sizedScenes) {
+                    total += (await exportScene(scene, format, exportSettings)).size;
+                }
+                sizes[format] = total;
+            }
+            setFormatSizes(sizes);
+        } catch (error: any) {
+            console.error("Failed to measure output formats:", error);
+            alert(`An error occurred while comparing formats: ${error.message}`);
+        } finally {
+            setIsMeasuringFormats(false);
+        }
+    };
+
+    // Scene edits are undone by scene id, so they still apply after other scenes have changed.
+    const updateScene = (id: string, changes: Partial<GifScene>) => {
+        setScenes(prev => prev.map(scene => scene.id === id ? { ...scene, ...changes } : scene));
+    };
+
     const handleSelectScene = (id: string) => {
-        setScenes(prev => prev.map(scene => scene.id === id ? { ...scene, isSelected: !scene.isSelected } : scene));
+        const scene = scenes.find(s => s.id === id);
+        if (!scene) return;
+        const isSelected = !scene.isSelected;
+        sceneHistory.execute({
+            label: `${isSelected ? 'Select' : 'Deselect'} ${scene.name}`,
+            undo: () => updateScene(id, { isSelected: !isSelected }),
+            redo: () => updateScene(id, { isSelected }),
+        });
     };
 
     const handleNameChange = (id: string, newName: string) => {
-        setScenes(prev => prev.map(scene => scene.id === id ? { ...scene, name: newName } : scene));
+        const scene = scenes.find(s => s.id === id);
+        if (!scene) return;
+        const oldName = scene.name;
+        sceneHistory.execute({
+            label: `Rename ${oldName} to ${newName}`,
+            undo: () => updateScene(id, { name: oldName }),
+            redo: () => updateScene(id, { name: newName }),
+        });
+    };
+
+    // The video processor owns the scenes it produced and releases them itself when the video or range
+    // changes. GIFs and frames made on top of them here (re-encodes, rebuilt cuts) are released with this,
+    // skipping anything the processor or a scene that stays still uses.
+    const releaseSceneEdits = (released: GifScene[], kept: GifScene[] = []) => {
+        const inUse = [...processedScenes, ...kept];
+        const urlsInUse = new Set(inUse.map(scene => scene.dataUrl));
+        const framesInUse = new Set(inUse.flatMap(scene => scene.frames.map(({ frame }) => frame.key)));
+        released.forEach(scene => {
+            if (!urlsInUse.has(scene.dataUrl)) URL.revokeObjectURL(scene.dataUrl);
+            releaseFrames(scene.frames.filter(({ frame }) => !framesInUse.has(frame.key)));
+        });
+    };
+
+    const handleChangeRange = () => {
+        releaseSceneEdits(scenes);
+        setScenes([]);
+        clearSceneHistory();
+        setClipRange(null);
+    };
+
+    const handleCutsChange = async (cuts: number[]) => {
+        setIsUpdatingCuts(true);
+        try {
+            // Only scenes whose frame range changed are re-encoded.
+            const rebuilt = await rebuildScenesFromCuts(scenes, cuts, encodeSceneFrames);
+            releaseSceneEdits(scenes.filter(scene => !rebuilt.includes(scene)), rebuilt);
+            setScenes(rebuilt);
+            // History entries find their scene by id, and rebuilt scenes get new ones.
+            if (rebuilt.some(scene => !scenes.includes(scene)) || rebuilt.length !== scenes.length) {
+                sceneHistory.clear();
+                setSceneHistoryNotice('The scene cuts changed, so earlier edits can no longer be undone.');
+            }
+        } catch (error: any) {
+            console.error("Failed to update scene cuts:", error);
+            alert(`An error occurred while updating the scenes: ${error.message}`);
+        } finally {
+            setIsUpdatingCuts(false);
+        }
+    };
+
+    // The scenes as last rendered, for re-encodes that finish after other changes.
+    const scenesRef = useRef(scenes);
+    scenesRef.current = scenes;
+    // The re-encode in progress for each scene. A newer one for the same scene cancels it, so undoing and
+    // redoing quickly ends on the last request instead of whichever encode finishes last.
+    const reencodeControllersRef = useRef(new Map<string, AbortController>());
+
+    const handleReencodeScene = async (id: string, encoding: SceneEncoding) => {
+        const scene = scenes.find(s => s.id === id);
+        if (!scene) return;
+
+        const controllers = reencodeControllersRef.current;
+        controllers.get(id)?.abort();
+        const controller = new AbortController();
+        controllers.set(id, controller);
+        setReencodingSceneIds(prev => prev.includes(id) ? prev : [...prev, id]);
+        try {
+            // Rebuilt from the stored frames; the video isn't split again.
+            const { blob, report } = await encodeSceneFrames(scene.frames, encoding, controller.signal);
+            // The scene as shown now: a re-encode that finished meanwhile may have replaced its GIF.
+            const current = scenesRef.current.find(s => s.id === id);
+            if (controller.signal.aborted || !current) return;
+            const reencoded = { ...current, dataUrl: URL.createObjectURL(blob), encoding, encodeReport: report };
+            setScenes(prev => prev.map(s => s.id === id ? { ...s, dataUrl: reencoded.dataUrl, encoding, encodeReport: report } : s));
+            releaseSceneEdits([current], [reencoded]);
+        } catch (error: any) {
+            // A cancelled re-encode was replaced by a newer one.
+            if (controller.signal.aborted) return;
+            console.error("Failed to re-encode scene:", error);
+            alert(`An error occurred while re-encoding the scene: ${error.message}`);
+        } finally {
+            if (controllers.get(id) === controller) {
+                controllers.delete(id);
+                setReencodingSceneIds(prev => prev.filter(sceneId => sceneId !== id));
+            }
+        }
+    };
+
+    // Undo re-encodes with the previous settings, through the latest handler so it sees the current scenes.
+    const reencodeSceneRef = useRef(handleReencodeScene);
+    reencodeSceneRef.current = handleReencodeScene;
+
+    const handleEncodingChange = (id: string, encoding: SceneEncoding, label: string) => {
+        const scene = scenes.find(s => s.id === id);
+        if (!scene) return;
+        const previous = scene.encoding;
+        sceneHistory.execute({
+            label: `${label} ${scene.name}`,
+            undo: () => reencodeSceneRef.current(id, previous),
+            redo: () => reencodeSceneRef.current(id, encoding),
+        });
+    };
+
+    const handlePlaybackChange = (id: string, playback: PlaybackSettings) => {
+        const scene = scenes.find(s => s.id === id);
+        if (scene) handleEncodingChange(id, { ...scene.encoding, playback }, 'Change playback of');
     };
 
     const handleDownloadSelected = async () => {
@@ -457,32 +794,32 @@ const App: React.FC = () => {
 
         setLoadingStates(s => ({...s, isZipping: true}));
         try {
+            const { extension } = getEncoder(downloadFormat);
             if (selectedScenes.length === 1) {
                 const scene = selectedScenes[0];
-                const response = await fetch(scene.dataUrl);
-                const blob = await response.blob();
-                const filename = `${sanitizeFilename(scene.name)}.gif`;
+                const blob = await exportScene(scene, downloadFormat, exportSettings);
+                const filename = `${sanitizeFilename(scene.name)}.${extension}`;
                 triggerDownload(blob, filename);
             } else {
                 const zip = new JSZip();
-                await Promise.all(selectedScenes.map(async (scene) => {
-                    const response = await fetch(scene.dataUrl);
-                    const blob = await response.blob();
-                    const filename = `${sanitizeFilename(scene.name)}.gif`;
-                    zip.file(filename, blob);
-                }));
+                // One scene at a time, so only one scene's frames are being encoded at once.
+                for (const scene of selectedScenes) {
+                    const blob = await exportScene(scene, downloadFormat, exportSettings);
+                    zip.file(`${sanitizeFilename(scene.name)}.${extension}`, blob);
+                }
                 const content = await zip.generateAsync({ type: 'blob' });
                 triggerDownload(content, 'gifs-selection.zip');
             }
-        } catch (error) {
+        } catch (error: any) {
             console.error("Failed to download selected GIF(s):", error);
+            alert(`An error occurred while exporting the scenes: ${error.message}`);
         } finally {
             setLoadingStates(s => ({...s, isZipping: false}));
         }
     };
     
     // New Share Handler
-    const handleInitShare = async (blobOrUrl: Blob | string, name: string) => {
+    const handleInitShare = async (blobOrUrl: Blob | string, name: string, sources?: SourceMoment[]) => {
         try {
             let blob: Blob;
             if (typeof blobOrUrl === 'string') {
@@ -491,7 +828,7 @@ const App: React.FC = () => {
             } else {
                 blob = blobOrUrl;
             }
-            setShareItem({ blob, name });
+            setShareItem({ blob, name, sources });
         } catch (e) {
             console.error("Failed to prepare share item", e);
             alert("Failed to prepare item for sharing.");
@@ -502,7 +839,7 @@ const App: React.FC = () => {
         if (!shareItem) return;
         try {
             // Call firebase upload method which takes the blob directly
-            await saveToLibrary(shareItem.blob, shareItem.name, category);
+            await saveToLibrary(shareItem.blob, shareItem.name, category, shareItem.sources);
             setShareItem(null);
             // Switch to library tab to show the new item
             setActiveTab('library');
@@ -516,118 +853,99 @@ const App: React.FC = () => {
         if (scenes.length === 0) return;
         setLoadingStates(s => ({...s, isZippingAll: true}));
         try {
+            const { extension } = getEncoder(downloadFormat);
             const zip = new JSZip();
-            await Promise.all(scenes.map(async (scene) => {
-                const response = await fetch(scene.dataUrl);
-                const blob = await response.blob();
-                const filename = `${sanitizeFilename(scene.name)}.gif`;
-                zip.file(filename, blob);
-            }));
+            // One scene at a time, so only one scene's frames are being encoded at once.
+            for (const scene of scenes) {
+                const blob = await exportScene(scene, downloadFormat, exportSettings);
+                zip.file(`${sanitizeFilename(scene.name)}.${extension}`, blob);
+            }
             const content = await zip.generateAsync({ type: 'blob' });
             triggerDownload(content, 'gifs-all.zip');
-        } catch (error) {
+        } catch (error: any) {
             console.error("Failed to zip all GIFs:", error);
+            alert(`An error occurred while exporting the scenes: ${error.message}`);
         } finally {
             setLoadingStates(s => ({...s, isZippingAll: false}));
         }
     };
 
-    const handleDownloadFullVideoAsGif = async () => {
-        if (!videoFile || !workerScriptUrl) return;
+    const handleDownloadFullVideo = async () => {
+        if (!videoFile) return;
 
         setLoadingStates(s => ({...s, isConvertingFullVideo: true }));
         setFullVideoProgress(0);
+        setFullVideoDecodeStats(null);
 
-        const video = document.createElement('video');
-        video.muted = true;
-        const videoSrc = URL.createObjectURL(videoFile);
-        video.src = videoSrc;
-        
-        try {
-            await new Promise<void>((resolve, reject) => {
-                video.onloadedmetadata = () => resolve();
-                video.onerror = () => reject(new Error("Failed to load video metadata."));
-            });
+        let video: HTMLVideoElement | null = null;
+        // Decoded frames go into the frame store, which compresses or moves them to disk past its budget.
+        const frames: SceneFrame[] = [];
 
-            let { videoWidth, videoHeight } = video;
-            const { resolution, frameRate, quality, dither } = optimizationSettings;
+        try {
+            video = await loadVideo(videoFile);
 
-            if (resolution !== 'original') {
-                const largerDim = Math.max(videoWidth, videoHeight);
-                if (largerDim > resolution) {
-                    const scale = resolution / largerDim;
-                    videoWidth = Math.floor(videoWidth * scale);
-                    videoHeight = Math.floor(videoHeight * scale);
-                }
-            }
+            const { frameRate, quality, dither } = optimizationSettings;
+            const layout = getCropLayout(video.videoWidth, video.videoHeight, optimizationSettings);
+            const { width: videoWidth, height: videoHeight } = layout;
+            // There are no scene cuts here, so smart reframing follows the action across the whole video.
+            const reframer = createReframer(optimizationSettings.reframe);
 
+            const scaledCanvas = document.createElement('canvas');
+            scaledCanvas.width = layout.scaledWidth;
+            scaledCanvas.height = layout.scaledHeight;
+            const comparisonCanvas = document.createElement('canvas');
+            comparisonCanvas.width = REFRAME_CANVAS_WIDTH;
+            comparisonCanvas.height = Math.max(1, Math.round(REFRAME_CANVAS_WIDTH * (layout.scaledHeight / layout.scaledWidth)));
             const canvas = document.createElement('canvas');
             canvas.width = videoWidth;
             canvas.height = videoHeight;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error("Could not get canvas context.");
+            const scaledCtx = scaledCanvas.getContext('2d');
+            const comparisonCtx = comparisonCanvas.getContext('2d', { willReadFrequently: true });
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!scaledCtx || !comparisonCtx || !ctx) throw new Error("Could not get canvas context.");
 
             // Enable high-quality image smoothing
-            ctx.imageSmoothingEnabled = true;
-            ctx.imageSmoothingQuality = 'high';
-
-            const gif = new GIF({ 
-                workers: 2, 
-                quality, 
-                dither: dither ? "FloydSteinberg" : false,
-                workerScript: workerScriptUrl, 
-                width: videoWidth, 
-                height: videoHeight 
-            });
-            
-            const totalFrames = Math.floor(video.duration * frameRate);
-            for (let i = 0; i < totalFrames; i++) {
-                const time = i / frameRate;
-                await new Promise<void>((resolve, reject) => {
-                    const seekTimeout = setTimeout(() => reject(new Error('Video seek timed out')), 5000);
-                    const onSeeked = () => {
-                        video.removeEventListener('seeked', onSeeked);
-                        clearTimeout(seekTimeout);
-                        resolve();
-                    };
-                    video.addEventListener('seeked', onSeeked);
-                    video.currentTime = time;
-                });
-                
-                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                const frameImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                gif.addFrame(frameImageData, { delay: 1000 / frameRate });
-                setFullVideoProgress(((i + 1) / totalFrames) * 100);
+            scaledCtx.imageSmoothingEnabled = true;
+            scaledCtx.imageSmoothingQuality = 'high';
+
+            const frameOptions = { frameRate, startTime: clipRange?.start, endTime: clipRange?.end };
+            const totalFrames = getFrameCount(video.duration, frameOptions);
+            for await (const { index, image } of readVideoFrames(video, { ...frameOptions, onStats: setFullVideoDecodeStats })) {
+                scaledCtx.drawImage(image, 0, 0, scaledCanvas.width, scaledCanvas.height);
+                comparisonCtx.drawImage(scaledCanvas, 0, 0, comparisonCanvas.width, comparisonCanvas.height);
+                const centre = reframer.update(comparisonCtx.getImageData(0, 0, comparisonCanvas.width, comparisonCanvas.height));
+                const offset = getCropOffset(centre, layout);
+                ctx.drawImage(scaledCanvas, offset.x, offset.y, videoWidth, videoHeight, 0, 0, videoWidth, videoHeight);
+                frames.push({ frame: putFrame(ctx.getImageData(0, 0, canvas.width, canvas.height)), delay: 1000 / frameRate });
+                // Decoding is the first half of the progress bar, encoding the second.
+                setFullVideoProgress(((index + 1) / totalFrames) * 50);
             }
+            releaseVideo(video);
+            video = null;
 
-            gif.on('finished', (blob: Blob) => {
-                triggerDownload(blob, 'full-video.gif');
-                setLoadingStates(s => ({...s, isConvertingFullVideo: false}));
-            });
-            gif.render();
+            const encoder = getEncoder(downloadFormat);
+            const encoderFrames = createEncoderFrames(frames, ({ frame }) => loadFrame(frame));
+            const palette = downloadFormat === 'gif' ? await resolveEncoderPalette(encoderFrames, optimizationSettings) : undefined;
+            const encoded = await encoder.encode(encoderFrames, { quality, dither, palette, loops: videoLoops, onProgress: p => setFullVideoProgress(50 + p * 50) });
+            const blob = downloadFormat === 'gif' && optimizationSettings.optimizeFrames
+                ? await optimizeGif(encoded, optimizationSettings.lossyTolerance)
+                : encoded;
+            triggerDownload(blob, `full-video.${encoder.extension}`);
         } catch (error: any) {
             console.error("Failed to convert full video to GIF:", error);
             alert(`An error occurred while converting the video: ${error.message}`);
-            setLoadingStates(s => ({...s, isConvertingFullVideo: false}));
         } finally {
-             URL.revokeObjectURL(videoSrc);
+            setLoadingStates(s => ({...s, isConvertingFullVideo: false}));
+            if (video) releaseVideo(video);
+            releaseFrames(frames);
         }
     };
     
-    const triggerDownload = (blob: Blob, fileName: string) => {
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(blob);
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(link.href);
-    };
-
     const resetCombineState = () => {
-        parsedGifs.forEach(gif => URL.revokeObjectURL(gif.url));
-        setParsedGifs([]);
-        setIsCombining(false);
+        const current = combineClips ?? [];
+        releaseClips([...current, ...removedCombineClipsRef.current.filter(clip => !current.includes(clip))]);
+        removedCombineClipsRef.current = [];
+        setCombineClips(null);
         setGifParseError(null);
         setIsParsingGifs(false);
     };
@@ -643,9 +961,15 @@ const App: React.FC = () => {
         setOptimizationSettings(settings);
     }, []);
 
-    const handleCloseCombineModal = () => {
-        setIsCombineModalOpen(false);
-        // Deselect all scenes after combining/closing modal
+    const handleCombineClipsChange = (clips: CombineClip[]) => {
+        const removed = (combineClips ?? []).filter(clip => !clips.includes(clip) && !removedCombineClipsRef.current.includes(clip));
+        removedCombineClipsRef.current.push(...removed);
+        setCombineClips(clips);
+    };
+
+    const handleCloseCombineWorkspace = () => {
+        resetCombineState();
+        // Deselect all scenes after combining/closing the workspace
         setScenes(prevScenes =>
             prevScenes.map(scene => ({ ...scene, isSelected: false }))
         );
@@ -682,9 +1006,10 @@ const App: React.FC = () => {
         }
     };
 
-    const hasContent = scenes.length > 0 || isSplittingVideo || isFetching || isCombining || isParsingGifs || activeTab === 'library';
+    const isPickingRange = videoFile !== null && clipRange === null;
+    const hasContent = isPickingRange || scenes.length > 0 || isSplittingVideo || isFetching || isParsingGifs || activeTab === 'library';
     const selectedCount = scenes.filter(s => s.isSelected).length;
-    const isBusy = loadingStates.isZipping || loadingStates.isZippingAll || loadingStates.isConvertingFullVideo;
+    const isBusy = loadingStates.isZipping || loadingStates.isZippingAll || loadingStates.isConvertingFullVideo || isUpdatingCuts || reencodingSceneIds.length > 0;
 
     const downloadSelectedText = selectedCount > 1 
         ? `Download ${selectedCount} Selected (Zip)`
@@ -709,6 +1034,15 @@ const App: React.FC = () => {
                         <p className="text-red-300">{fetchError}</p>
                     </div>
                 )}
+                {isPickingRange && (
+                    <RangePicker
+                        videoFile={videoFile}
+                        initialStart={linkStartTime}
+                        settings={splitSettings}
+                        onConfirm={setClipRange}
+                        onOpenSettings={() => setIsSettingsModalOpen(true)}
+                    />
+                )}
                 {isSplittingVideo && (
                     <div className="text-center">
                         <h3 className="text-2xl font-semibold mb-4 text-gray-300">Splitting Video into GIFs...</h3>
@@ -716,6 +1050,12 @@ const App: React.FC = () => {
                             <div className="bg-indigo-500 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
                         </div>
                         <p className="mt-2 text-gray-400">{Math.round(progress)}% Complete</p>
+                        {decodeStats && (
+                            <p className="mt-1 text-xs text-gray-500">{formatDecodeStats(decodeStats)}</p>
+                        )}
+                        <div className="mt-2 flex justify-center">
+                            <FrameMemoryIndicator />
+                        </div>
                     </div>
                 )}
                 {processingError && (
@@ -728,9 +1068,16 @@ const App: React.FC = () => {
                 {scenes.length > 0 && (
                     <div className="flex flex-col gap-8">
                         <div className="flex flex-wrap items-center justify-between gap-4">
-                            <h2 className="text-3xl font-bold text-gray-200">Generated Scenes</h2>
+                            <div className="flex flex-col gap-1">
+                                <h2 className="text-3xl font-bold text-gray-200">Generated Scenes</h2>
+                                <FrameMemoryIndicator />
+                            </div>
                             <div className="flex flex-wrap gap-3">
-                                <button onClick={() => setIsCombineModalOpen(true)} disabled={selectedCount < 2 || isBusy} className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
+                                <button onClick={handleChangeRange} disabled={isBusy} className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
+                                    <Scissors size={18} />
+                                    Change Range
+                                </button>
+                                <button onClick={() => setCombineClips(scenes.filter(s => s.isSelected).map(sceneToClip))} disabled={selectedCount === 0 || isBusy} className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
                                     <Merge size={18} />
                                     Combine {selectedCount} Selected
                                 </button>
@@ -742,16 +1089,19 @@ const App: React.FC = () => {
                                     {loadingStates.isZippingAll ? <Loader size="sm" /> : <Clapperboard size={18} />}
                                     {loadingStates.isZippingAll ? 'Zipping...' : `Download All ${scenes.length} (Zip)`}
                                 </button>
-                                <button onClick={handleDownloadFullVideoAsGif} disabled={isBusy} className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
+                                <button onClick={handleDownloadFullVideo} disabled={isBusy} className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
                                     {loadingStates.isConvertingFullVideo ? <Loader size="sm" /> : <Film size={18} />}
-                                    {loadingStates.isConvertingFullVideo ? `Converting... ${Math.round(fullVideoProgress)}%` : 'Download Full Video as GIF'}
+                                    {loadingStates.isConvertingFullVideo ? `Converting... ${Math.round(fullVideoProgress)}%` : `Download Full Video as ${getEncoder(downloadFormat).label}`}
                                 </button>
+                                {loadingStates.isConvertingFullVideo && fullVideoDecodeStats && (
+                                    <span className="self-center text-xs text-gray-500">{formatDecodeStats(fullVideoDecodeStats)}</span>
+                                )}
                                 {/* Save Single Selected */}
                                 {selectedCount === 1 && (
                                     <button 
                                         onClick={() => {
                                             const selected = scenes.find(s => s.isSelected);
-                                            if (selected) handleInitShare(selected.dataUrl, selected.name);
+                                            if (selected) handleInitShare(selected.dataUrl, selected.name, [selected.source]);
                                         }}
                                         className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-semibold rounded-lg shadow-md hover:opacity-90 transition-all"
                                     >
@@ -760,13 +1110,56 @@ const App: React.FC = () => {
                                     </button>
                                 )}
                             </div>
+                            <div className="flex flex-wrap items-center gap-3 w-full">
+                                <span className="text-sm text-gray-400">Download as</span>
+                                <FormatPicker
+                                    value={downloadFormat}
+                                    onChange={setDownloadFormat}
+                                    sizes={formatSizes}
+                                    onMeasure={handleMeasureFormats}
+                                    isMeasuring={isMeasuringFormats}
+                                    disabled={isBusy}
+                                />
+                                <span className="text-xs text-gray-500">
+                                    {selectedCount > 0 ? `Sizes for the ${selectedCount} selected` : `Sizes for all ${scenes.length}`}
+                                </span>
+                            </div>
                         </div>
 
+                        <HistoryPanel
+                            entries={sceneHistory.entries}
+                            position={sceneHistory.position}
+                            onUndo={sceneHistory.undo}
+                            onRedo={sceneHistory.redo}
+                            onGoTo={sceneHistory.goTo}
+                            notice={sceneHistoryNotice}
+                            className="max-w-md"
+                        />
+
                         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                             {scenes.map(scene => (
-                                <GifCard key={scene.id} scene={scene} onSelect={handleSelectScene} onNameChange={handleNameChange} />
+                                <GifCard
+                                    key={scene.id}
+                                    scene={scene}
+                                    onSelect={handleSelectScene}
+                                    onNameChange={handleNameChange}
+                                    onEditEncoding={isSplittingVideo || isUpdatingCuts ? undefined : setEncodingSceneId}
+                                    onPlaybackChange={isSplittingVideo || isUpdatingCuts ? undefined : handlePlaybackChange}
+                                    isEncoding={reencodingSceneIds.includes(scene.id)}
+                                />
                             ))}
                         </div>
+
+                        {!isSplittingVideo && frameScores.length > 0 && (
+                            <SceneTimeline
+                                scores={frameScores}
+                                scenes={scenes}
+                                frameRate={optimizationSettings.frameRate}
+                                timeOffset={clipRange?.start ?? 0}
+                                isUpdating={isUpdatingCuts}
+                                onCutsChange={handleCutsChange}
+                            />
+                        )}
                     </div>
                 )}
             </>
@@ -788,14 +1181,6 @@ const App: React.FC = () => {
                         <p className="text-red-300">{gifParseError}</p>
                     </div>
                 )}
-                {isCombining && parsedGifs.length > 0 && (
-                    <GifCombiner 
-                        gifs={parsedGifs} 
-                        onBack={resetCombineState} 
-                        onGifsUpdate={setParsedGifs}
-                        onShare={handleInitShare}
-                    />
-                )}
             </>
         )
     }
@@ -894,7 +1279,13 @@ const App: React.FC = () => {
                                     </div>
                                 )}
                                 {activeTab === 'combine' && (
-                                    <GifFileUploader onGifFilesSelect={handleGifFilesSelect} />
+                                    <div className="flex flex-col items-start gap-4">
+                                        <GifFileUploader onGifFilesSelect={handleGifFilesSelect} />
+                                        <button type="button" onClick={() => setCombineClips([])} className="flex items-center justify-center gap-3 text-sm font-bold text-white px-8 py-3 bg-[#2C2C2E] rounded-full hover:bg-white/20 transition-colors">
+                                            <BookOpen size={18} />
+                                            <span>Combine from the Library</span>
+                                        </button>
+                                    </div>
                                 )}
                                  {fetchError && (
                                     <div className="text-left my-4 p-4 bg-red-900/50 border border-red-700 rounded-lg max-w-2xl">
@@ -922,15 +1313,22 @@ const App: React.FC = () => {
             <footer className="text-center text-sm text-[#8E8E93] py-4">
                 © Gifffit — Made by Haddady
             </footer>
-            {isCombineModalOpen && (
-                <CombineModal
-                    isOpen={isCombineModalOpen}
-                    onClose={handleCloseCombineModal}
-                    scenes={scenes.filter(s => s.isSelected)}
-                    workerScriptUrl={workerScriptUrl}
+            {combineClips && (
+                <CombineWorkspace
+                    clips={combineClips}
+                    onClipsChange={handleCombineClipsChange}
+                    availableScenes={scenes}
+                    onClose={handleCloseCombineWorkspace}
+                    encodingSettings={encodingSettings}
+                    exportSettings={exportSettings}
                     onShare={handleInitShare}
                 />
             )}
+            <SceneEncodingModal
+                scene={scenes.find(scene => scene.id === encodingSceneId) ?? null}
+                onClose={() => setEncodingSceneId(null)}
+                onApply={(id, encoding) => handleEncodingChange(id, encoding, 'Re-encode')}
+            />
             <OptimizationSettingsModal
                 isOpen={isSettingsModalOpen}
                 onClose={() => setIsSettingsModalOpen(false)}
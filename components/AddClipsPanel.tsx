@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { CombineClip, GifScene, LibraryItem } from '../types';
+import Loader from './Loader';
+import { Plus, Clapperboard, Upload, Library as LibraryIcon } from 'lucide-react';
+import { getLibraryItems } from '../utils/storage';
+import { loadGifFileClips, loadLibraryClip, sceneToClip } from '../utils/combineClips';
+
+interface AddClipsPanelProps {
+    scenes: GifScene[]; // Scenes from the current video that aren't in the combination yet
+    onAdd: (clips: CombineClip[]) => void;
+}
+
+type ClipSource = 'scenes' | 'library';
+
+const AddClipsPanel: React.FC<AddClipsPanelProps> = ({ scenes, onAdd }) => {
+    const [openSource, setOpenSource] = useState<ClipSource | null>(null);
+    const [libraryItems, setLibraryItems] = useState<LibraryItem[] | null>(null);
+    const [loadingIds, setLoadingIds] = useState<string[]>([]);
+    const [isParsing, setIsParsing] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // The library is only fetched once someone wants to pick from it.
+    useEffect(() => {
+        if (openSource !== 'library' || libraryItems !== null) return;
+        getLibraryItems()
+            .then(setLibraryItems)
+            .catch(error => {
+                console.error("Failed to load library:", error);
+                alert("Failed to load the library. Please check your connection.");
+                setOpenSource(null);
+            });
+    }, [openSource, libraryItems]);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = [...(event.target.files ?? [])].filter(file => file.type === 'image/gif');
+        event.target.value = '';
+        if (files.length === 0) return;
+        setIsParsing(true);
+        try {
+            onAdd(await loadGifFileClips(files));
+        } catch (error: any) {
+            console.error('GIF parsing failed:', error);
+            alert(`Could not read the GIFs: ${error.message}`);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const handleAddLibraryItem = async (item: LibraryItem) => {
+        setLoadingIds(prev => [...prev, item.id]);
+        try {
+            onAdd([await loadLibraryClip(item)]);
+        } catch (error: any) {
+            console.error("Failed to add library GIF:", error);
+            alert(`Could not add "${item.name}": ${error.message}`);
+        } finally {
+            setLoadingIds(prev => prev.filter(id => id !== item.id));
+        }
+    };
+
+    const toggle = (source: ClipSource) => setOpenSource(prev => prev === source ? null : source);
+    const buttonClassName = (isActive: boolean) =>
+        `flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+    return (
+        <div className="flex flex-col gap-2 mt-2">
+            <div className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+                <Plus size={16} className="text-indigo-400" />
+                Add Clips
+            </div>
+            <div className="flex gap-2">
+                <button onClick={() => toggle('scenes')} disabled={scenes.length === 0} className={buttonClassName(openSource === 'scenes')}>
+                    <Clapperboard size={14} />
+                    Scenes
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={isParsing} className={buttonClassName(false)}>
+                    {isParsing ? <Loader size="sm" /> : <Upload size={14} />}
+                    GIFs
+                </button>
+                <button onClick={() => toggle('library')} className={buttonClassName(openSource === 'library')}>
+                    <LibraryIcon size={14} />
+                    Library
+                </button>
+                <input ref={fileInputRef} type="file" accept="image/gif" multiple className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {openSource === 'scenes' && (
+                <div className="grid grid-cols-3 gap-2">
+                    {scenes.map(scene => (
+                        <button key={scene.id} onClick={() => onAdd([sceneToClip(scene)])} className="flex flex-col gap-1 p-1 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors" title={`Add ${scene.name}`}>
+                            <img src={scene.dataUrl} alt={scene.name} className="w-full aspect-square object-cover rounded" />
+                            <span className="text-[11px] text-gray-300 truncate">{scene.name}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {openSource === 'library' && (
+                libraryItems === null ? (
+                    <div className="flex justify-center py-4"><Loader size="md" /></div>
+                ) : libraryItems.length === 0 ? (
+                    <p className="text-xs text-gray-500">No GIFs have been shared yet.</p>
+                ) : (
+                    <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                        {libraryItems.map(item => (
+                            <button
+                                key={item.id}
+                                onClick={() => handleAddLibraryItem(item)}
+                                disabled={loadingIds.includes(item.id)}
+                                className="relative flex flex-col gap-1 p-1 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-60 transition-colors"
+                                title={`Add ${item.name}`}
+                            >
+                                <img src={item.url} alt={item.name} loading="lazy" className="w-full aspect-[9/16] object-cover rounded" />
+                                <span className="text-[11px] text-gray-300 truncate">{item.name}</span>
+                                {loadingIds.includes(item.id) && (
+                                    <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded-md"><Loader size="sm" /></div>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
+
+export default AddClipsPanel;
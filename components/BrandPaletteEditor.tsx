@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { Upload } from 'lucide-react';
+import { parseHexPalette, parsePaletteFile } from '../utils/palette';
+
+interface BrandPaletteEditorProps {
+    palette: string[]; // '#rrggbb' colours
+    onChange: (palette: string[]) => void;
+}
+
+const BrandPaletteEditor: React.FC<BrandPaletteEditorProps> = ({ palette, onChange }) => {
+    const [text, setText] = useState(palette.join(' '));
+    const [error, setError] = useState<string | null>(null);
+
+    // Keep the text in sync when the palette is replaced from outside, e.g. by an upload.
+    useEffect(() => {
+        setText(current => parseHexPalette(current).join(' ') === palette.join(' ') ? current : palette.join(' '));
+    }, [palette]);
+
+    const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        setText(e.target.value);
+        setError(null);
+        onChange(parseHexPalette(e.target.value));
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const colors = await parsePaletteFile(file);
+            setError(null);
+            onChange(colors);
+        } catch (err: any) {
+            console.error("Failed to read palette file:", err);
+            setError(err.message || "Could not read this palette file.");
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <textarea
+                value={text}
+                onChange={handleTextChange}
+                rows={2}
+                placeholder="#1a1a2e #e94560 #f5f5f5"
+                className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white text-sm font-mono focus:ring-indigo-500 focus:border-indigo-500 transition-all"
+                aria-label="Brand colours as hex codes"
+            />
+            <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1.5 text-xs text-indigo-400 hover:text-indigo-300 cursor-pointer">
+                    <Upload className="w-3.5 h-3.5" />
+                    Load .ase, .gpl or hex list
+                    <input type="file" accept=".ase,.gpl,.txt,.hex,.csv" onChange={handleFileChange} className="hidden" />
+                </label>
+                <span className="text-xs text-gray-400">{palette.length} / 256 colours</span>
+            </div>
+            {palette.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {palette.map(color => (
+                        <span key={color} title={color} className="w-4 h-4 rounded-sm border border-gray-600" style={{ backgroundColor: color }} />
+                    ))}
+                </div>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default BrandPaletteEditor;
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { ClipRange } from '../types';
+
+interface ClipRangeControlsProps {
+    frameCount: number; // Frames in the clip itself
+    value: ClipRange | undefined; // Undefined uses the whole clip
+    onChange: (range: ClipRange) => void;
+}
+
+const inputClassName = 'w-12 bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-[11px] text-gray-200 focus:ring-indigo-500 focus:border-indigo-500';
+
+const ClipRangeControls: React.FC<ClipRangeControlsProps> = ({ frameCount, value, onChange }) => {
+    const start = value?.start ?? 0;
+    const end = value?.end ?? frameCount - 1;
+    const clamp = (frame: number, min: number, max: number) => Math.min(max, Math.max(min, Number.isFinite(frame) ? frame : min));
+
+    return (
+        <div className="flex items-center gap-1.5 text-[11px] text-gray-400" onClick={e => e.stopPropagation()}>
+            <label className="flex items-center gap-1">
+                In
+                <input
+                    type="number"
+                    min={0}
+                    max={end}
+                    value={start}
+                    onChange={e => onChange({ start: clamp(parseInt(e.target.value, 10), 0, end), end })}
+                    className={inputClassName}
+                />
+            </label>
+            <label className="flex items-center gap-1">
+                Out
+                <input
+                    type="number"
+                    min={start}
+                    max={frameCount - 1}
+                    value={end}
+                    onChange={e => onChange({ start, end: clamp(parseInt(e.target.value, 10), start, frameCount - 1) })}
+                    className={inputClassName}
+                />
+            </label>
+            <span>of {frameCount}</span>
+        </div>
+    );
+};
+
+export default ClipRangeControls;
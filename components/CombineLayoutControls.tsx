@@ -0,0 +1,63 @@
+import React from 'react';
+import type { ClipFit, CombineLayout } from '../types';
+import { LayoutTemplate } from 'lucide-react';
+import { CLIP_FIT_OPTIONS, OUTPUT_SIZE_OPTIONS } from '../utils/layout';
+
+interface CombineLayoutControlsProps {
+    layout: CombineLayout;
+    onChange: (layout: CombineLayout) => void;
+    outputSize: { width: number; height: number }; // The size the layout resolves to
+    hasMixedSizes: boolean;                        // Whether the clips differ in size, which makes the fit matter
+}
+
+const selectClassName = 'w-full bg-gray-800 border border-gray-600 rounded-md py-1.5 px-2 text-sm text-white focus:ring-indigo-500 focus:border-indigo-500';
+
+const CombineLayoutControls: React.FC<CombineLayoutControlsProps> = ({ layout, onChange, outputSize, hasMixedSizes }) => (
+    <div className="bg-gray-700 p-4 rounded-lg">
+        <div className="flex items-center gap-3 mb-3">
+            <LayoutTemplate size={20} className="text-indigo-400" />
+            <h4 className="font-semibold text-gray-200">Layout</h4>
+            <span className="ml-auto text-xs text-gray-400 font-mono">{outputSize.width}×{outputSize.height}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+            <label className="text-xs text-gray-300">
+                Output Size
+                <select
+                    value={layout.size}
+                    onChange={e => onChange({ ...layout, size: e.target.value as CombineLayout['size'] })}
+                    className={`${selectClassName} mt-1`}
+                >
+                    {OUTPUT_SIZE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="text-xs text-gray-300">
+                Clips
+                <select
+                    value={layout.fit}
+                    onChange={e => onChange({ ...layout, fit: e.target.value as ClipFit })}
+                    className={`${selectClassName} mt-1`}
+                >
+                    {CLIP_FIT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="text-xs text-gray-300">
+                Background
+                <input
+                    type="color"
+                    value={layout.background}
+                    onChange={e => onChange({ ...layout, background: e.target.value })}
+                    className="mt-1 w-full h-[34px] bg-gray-800 border border-gray-600 rounded-md cursor-pointer"
+                />
+            </label>
+        </div>
+        {hasMixedSizes && (
+            <p className="text-xs text-gray-400 mt-2">Clips differ in size. Fit shows all of a clip, Fill crops it to cover, Letterbox keeps its own size.</p>
+        )}
+    </div>
+);
+
+export default CombineLayoutControls;
@@ -0,0 +1,664 @@
+
+
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { ClipFit, ClipRange, CombineClip, CombineClipOrigin, CombineLayout, CombineMode, EncodingSettings, GridLayout, ExportSettings, GifScene, OutputFormat, PlaybackSettings, SceneFrame, SourceMoment, Transition } from '../types';
+import Loader from './Loader';
+import FormatPicker from './FormatPicker';
+import PlaybackControls from './PlaybackControls';
+import CombineLayoutControls from './CombineLayoutControls';
+import GridLayoutControls from './GridLayoutControls';
+import TransitionControls from './TransitionControls';
+import TimelineTransitions from './TimelineTransitions';
+import ClipRangeControls from './ClipRangeControls';
+import FrameFilmstrip from './FrameFilmstrip';
+import FramePlayer from './FramePlayer';
+import AddClipsPanel from './AddClipsPanel';
+import HistoryPanel from './HistoryPanel';
+import { X, Download, Scissors, MoveVertical, Share2, Clapperboard, Upload, Library as LibraryIcon } from 'lucide-react';
+import { trimSourceMoments, formatSourceMoment } from '../utils/sourceMoment';
+import { loadFrame, putFrame, releaseFrames } from '../utils/frameStore';
+import { createEncoderFrames, getEncoder } from '../utils/encoders';
+import { sanitizeFilename, triggerDownload } from '../utils/download';
+import { resolveEncoderPalette } from '../utils/palette';
+import { optimizeGif } from '../utils/gifOptimizer';
+import { useFormatExports } from '../hooks/useFormatExports';
+import { useHistory } from '../hooks/useHistory';
+import { getSequenceFrames, isLinearPlayback, LOOP_COUNT_OPTIONS } from '../utils/playback';
+import { CLIP_FIT_OPTIONS, DEFAULT_COMBINE_LAYOUT, createFrameLayouter, resolveOutputSize } from '../utils/layout';
+import { DEFAULT_TRANSITION, TRANSITION_TYPE_OPTIONS, blendTransitionFrame, buildSequence, type SequenceFrame } from '../utils/transitions';
+import { applyClipRange, applyFilmstripEdit, getTrimAfterEdit, type FilmstripEdit } from '../utils/filmstrip';
+import { DEFAULT_GRID_LAYOUT, GRID_CLIP_ID, buildGridTimeline, createGridComposer, getGridCellClipIds, getGridCellRects, getGridTemplate, resolveGridSize } from '../utils/grid';
+
+interface CombineWorkspaceProps {
+    clips: CombineClip[];                          // The clips being combined, in order
+    onClipsChange: (clips: CombineClip[]) => void; // Clips were added, removed or reordered
+    availableScenes: GifScene[];                   // Scenes of the current video that can be added
+    onClose: () => void;
+    encodingSettings: EncodingSettings;
+    exportSettings: ExportSettings;
+    onShare: (blob: Blob, name: string, sources?: SourceMoment[]) => void;
+}
+
+// A frame of the combined sequence, with the clip it came from and any transition it is part of.
+type CombinedFrame = SequenceFrame<SceneFrame>;
+
+// Filmstrip edits and the trim, which only apply to the frames they were made on: the build key names the
+// clips, playback, in/out points and transitions (or grid) those frames were built from.
+interface FrameEdits {
+    buildKey: string;
+    edits: FilmstripEdit[];
+    trim: ClipRange | null; // null keeps every frame
+}
+
+// Everything undo and redo restore in the workspace.
+interface WorkspaceSnapshot {
+    clips: CombineClip[];
+    clipPlayback: Record<string, PlaybackSettings>;
+    outputLoopCount: number;
+    layout: CombineLayout;
+    transitions: Record<string, Transition>;
+    clipRanges: Record<string, ClipRange>;
+    mode: CombineMode;
+    grid: GridLayout;
+    frameEdits: FrameEdits;
+}
+
+const FILMSTRIP_EDIT_LABELS: Record<FilmstripEdit['type'], string> = {
+    delete: 'Delete frames',
+    duplicate: 'Duplicate frames',
+    move: 'Move frames',
+    delay: 'Change frame delay',
+};
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const ORIGINS: Record<CombineClipOrigin, { label: string; Icon: typeof Upload }> = {
+    scene: { label: 'Video scene', Icon: Clapperboard },
+    upload: { label: 'Uploaded GIF', Icon: Upload },
+    library: { label: 'Library GIF', Icon: LibraryIcon },
+};
+
+// Notes on the trim previews when a frame is part of a transition.
+const getTransitionLabel = (frame: CombinedFrame | undefined) => {
+    const type = frame?.transition?.settings.type;
+    return type ? ` · ${TRANSITION_TYPE_OPTIONS.find(option => option.value === type)?.label}` : '';
+};
+
+const CombineWorkspace: React.FC<CombineWorkspaceProps> = ({ clips, onClipsChange, availableScenes, onClose, encodingSettings, exportSettings, onShare }) => {
+    // The GIF is only encoded for downloading or sharing; the preview plays the frames directly.
+    const [combinedGif, setCombinedGif] = useState<Blob | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [outputFormat, setOutputFormat] = useState<OutputFormat>('gif');
+    // Per-clip playback inside the combination, starting from each clip's own; and how often the result plays,
+    // starting out as often as the first clip did.
+    const [clipPlayback, setClipPlayback] = useState<Record<string, PlaybackSettings>>({});
+    const [outputLoopCount, setOutputLoopCount] = useState(() => clips[0]?.loopCount ?? 0);
+    const [layout, setLayout] = useState<CombineLayout>(DEFAULT_COMBINE_LAYOUT);
+    // The transition into each clip from the one before it.
+    const [transitions, setTransitions] = useState<Record<string, Transition>>({});
+    // Each clip's in and out points, and the filmstrip edits and trim made since the frames were built.
+    const [clipRanges, setClipRanges] = useState<Record<string, ClipRange>>({});
+    const [frameEdits, setFrameEdits] = useState<FrameEdits>({ buildKey: '', edits: [], trim: null });
+    // Side-by-side clips are composed into grid frames of their own, which then play as a single clip.
+    const [mode, setMode] = useState<CombineMode>('sequence');
+    const [grid, setGrid] = useState<GridLayout>(DEFAULT_GRID_LAYOUT);
+    const [gridFrames, setGridFrames] = useState<{ key: string; frames: SceneFrame[] }>({ key: '', frames: [] });
+    const [isComposing, setIsComposing] = useState(false);
+    
+    const encodingRef = useRef<Promise<Blob> | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const dragItem = useRef<number | null>(null);
+    const dragOverItem = useRef<number | null>(null);
+    const startFrameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const endFrameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const gridFramesRef = useRef<SceneFrame[]>([]);
+    const onClipsChangeRef = useRef(onClipsChange);
+    onClipsChangeRef.current = onClipsChange;
+    const history = useHistory();
+
+    const getPlayback = useCallback((clip: CombineClip) => clipPlayback[clip.id] ?? clip.playback, [clipPlayback]);
+
+    const getClipFrames = useCallback(
+        (clip: CombineClip) => getSequenceFrames(applyClipRange<SceneFrame>(clip.frames, clipRanges[clip.id]), getPlayback(clip)),
+        [clipRanges, getPlayback]
+    );
+
+    const gridCellClipIds = useMemo(() => getGridCellClipIds(grid, clips.map(clip => clip.id)), [grid, clips]);
+    const gridClips = useMemo(
+        () => gridCellClipIds.map(id => clips.find(clip => clip.id === id) ?? null),
+        [gridCellClipIds, clips]
+    );
+    const outputSize = useMemo(
+        () => mode === 'grid'
+            ? resolveGridSize(grid, layout.size, gridClips.filter((clip): clip is CombineClip => clip !== null))
+            : resolveOutputSize(layout.size, clips),
+        [mode, grid, gridClips, layout.size, clips]
+    );
+    const hasMixedSizes = clips.some(clip => clip.width !== clips[0].width || clip.height !== clips[0].height);
+
+    const sequenceKey = useMemo(
+        () => JSON.stringify(clips.map(clip => [clip.id, getPlayback(clip), clipRanges[clip.id] ?? null, transitions[clip.id] ?? null])),
+        [clips, getPlayback, clipRanges, transitions]
+    );
+    const gridKey = useMemo(
+        () => JSON.stringify({ grid, outputSize, layout, cells: gridClips.map(clip => clip && [clip.id, getPlayback(clip), clipRanges[clip.id] ?? null]) }),
+        [grid, outputSize, layout, gridClips, getPlayback, clipRanges]
+    );
+
+    // The frames as built from the clips, before filmstrip edits. In grid mode the composed grid plays as one clip.
+    const builtFrames = useMemo(
+        () => mode === 'grid'
+            ? buildSequence([{ id: GRID_CLIP_ID, frames: gridFrames.frames }], {})
+            : buildSequence(clips.map(clip => ({ id: clip.id, frames: getClipFrames(clip) })), transitions),
+        [mode, gridFrames, clips, getClipFrames, transitions]
+    );
+    const buildKey = mode === 'grid' ? `grid:${gridFrames.key}` : sequenceKey;
+    // Rebuilt frames start afresh, with no edits and nothing trimmed.
+    const currentEdits = frameEdits.buildKey === buildKey ? frameEdits : null;
+    const allFrames = useMemo(
+        () => (currentEdits?.edits ?? []).reduce<CombinedFrame[]>((frames, edit) => applyFilmstripEdit(frames, edit), builtFrames),
+        [builtFrames, currentEdits]
+    );
+    const trimStart = currentEdits?.trim?.start ?? 0;
+    const trimEnd = currentEdits?.trim?.end ?? Math.max(0, allFrames.length - 1);
+    const hasFrameEdits = (currentEdits?.edits.length ?? 0) > 0;
+
+    // The workspace as last restored or rendered, so changes made after an await build on it.
+    const snapshot: WorkspaceSnapshot = { clips, clipPlayback, outputLoopCount, layout, transitions, clipRanges, mode, grid, frameEdits };
+    const snapshotRef = useRef(snapshot);
+    snapshotRef.current = snapshot;
+
+    // Restores a snapshot; clips go through the latest handler, since the snapshot may be from long ago.
+    const restore = useCallback((snapshot: WorkspaceSnapshot) => {
+        snapshotRef.current = snapshot;
+        onClipsChangeRef.current(snapshot.clips);
+        setClipPlayback(snapshot.clipPlayback);
+        setOutputLoopCount(snapshot.outputLoopCount);
+        setLayout(snapshot.layout);
+        setTransitions(snapshot.transitions);
+        setClipRanges(snapshot.clipRanges);
+        setMode(snapshot.mode);
+        setGrid(snapshot.grid);
+        setFrameEdits(snapshot.frameEdits);
+    }, []);
+
+    // Applies a change as an undoable command. Changes can be worked out from the current workspace, for
+    // ones that finish after an await and may otherwise miss a change committed meanwhile.
+    const commit = (
+        label: string,
+        changes: Partial<WorkspaceSnapshot> | ((current: WorkspaceSnapshot) => Partial<WorkspaceSnapshot>),
+        mergeKey?: string
+    ) => {
+        const before = snapshotRef.current;
+        const after = { ...before, ...(typeof changes === 'function' ? changes(before) : changes) };
+        history.execute({ label, mergeKey, undo: () => restore(before), redo: () => restore(after) });
+    };
+
+    const { totalDuration, startTime, endTime, selectedDuration } = useMemo(() => {
+        if (allFrames.length === 0) {
+            return { totalDuration: 0, startTime: 0, endTime: 0, selectedDuration: 0 };
+        }
+        const totalDurationMs = allFrames.reduce((acc, f) => acc + f.delay, 0);
+        const startTimeMs = allFrames.slice(0, trimStart).reduce((acc, f) => acc + f.delay, 0);
+        const selectedDurationMs = allFrames.slice(trimStart, trimEnd + 1).reduce((acc, f) => acc + f.delay, 0);
+        const endTimeMs = startTimeMs + selectedDurationMs;
+
+        return { 
+            totalDuration: totalDurationMs / 1000, 
+            startTime: startTimeMs / 1000, 
+            endTime: endTimeMs / 1000,
+            selectedDuration: selectedDurationMs / 1000
+        };
+    }, [allFrames, trimStart, trimEnd]);
+
+    const placeFrame = useMemo(() => createFrameLayouter(outputSize, layout.background), [outputSize, layout.background]);
+
+    // Loads a frame and places it onto the output size from a clip of any size, blending transition frames.
+    const layoutFrame = useCallback(async ({ frame, clipId, transition }: CombinedFrame): Promise<ImageData> => {
+        const getFit = (id: string) => layout.clipFits[id] ?? layout.fit;
+        const data = placeFrame(await loadFrame(frame), getFit(clipId));
+        if (!transition) return data;
+        const from = placeFrame(await loadFrame(transition.from.frame), getFit(transition.fromClipId));
+        return blendTransitionFrame(from, data, transition.progress, transition.settings);
+    }, [placeFrame, layout]);
+
+    // The source moments that survive the trim, so the combined GIF can link back to them.
+    // Uploaded GIFs usually have none; scenes and published GIFs do.
+    const combinedSources = useMemo(() => {
+        const getRangeSources = (clip: CombineClip) => {
+            const range = clipRanges[clip.id];
+            return range ? trimSourceMoments([{ frameCount: clip.frames.length, sources: clip.sources }], range.start, range.end + 1) : clip.sources;
+        };
+        // Grid cells play at the same time, so any kept frame keeps every cell's moments.
+        if (mode === 'grid') {
+            const isKept = allFrames.length > 0 && trimEnd >= trimStart;
+            return isKept ? gridClips.flatMap((clip, i) => clip && gridClips.indexOf(clip) === i ? getRangeSources(clip) ?? [] : []) : [];
+        }
+        return trimSourceMoments(clips.map(clip => ({
+            // Transitions take their frames from the end of the clip before them.
+            frameCount: allFrames.filter(frame => frame.clipId === clip.id).length,
+            sources: getRangeSources(clip),
+            isReordered: !isLinearPlayback(getPlayback(clip)) || hasFrameEdits,
+        })), trimStart, trimEnd + 1);
+    }, [mode, clips, gridClips, allFrames, clipRanges, hasFrameEdits, getPlayback, trimStart, trimEnd]);
+
+    // Cancel any encode and release the grid frames when the workspace is closed (unmounted).
+    useEffect(() => {
+        return () => {
+            generationAbortRef.current?.abort();
+            releaseFrames(gridFramesRef.current);
+            gridFramesRef.current = [];
+        };
+    }, []);
+
+    // Compose the grid frames when the grid, its clips or how they are laid out change. The previous grid
+    // frames stay in use until the new ones are ready.
+    useEffect(() => {
+        if (mode !== 'grid') {
+            if (gridFramesRef.current.length > 0) generationAbortRef.current?.abort();
+            releaseFrames(gridFramesRef.current);
+            gridFramesRef.current = [];
+            setGridFrames({ key: '', frames: [] });
+            setIsComposing(false);
+            return;
+        }
+        let isCancelled = false;
+        const composed: SceneFrame[] = [];
+
+        const compose = async () => {
+            const cellFrames = gridClips.map(clip => clip ? getClipFrames(clip) : null);
+            const timeline = buildGridTimeline(cellFrames, grid.fill);
+            const composeFrame = createGridComposer(outputSize, getGridCellRects(getGridTemplate(grid.template), outputSize, grid.gutter), layout.background);
+            // Consecutive steps mostly show the same frame in a cell, so each cell keeps its last one loaded.
+            const loaded: ({ frame: SceneFrame['frame']; data: ImageData } | null)[] = cellFrames.map(() => null);
+            for (const step of timeline) {
+                const images = await Promise.all(step.frames.map(async (index, cell) => {
+                    const clip = gridClips[cell];
+                    if (index === null || !clip) return null;
+                    const { frame } = cellFrames[cell]![index];
+                    if (loaded[cell]?.frame !== frame) loaded[cell] = { frame, data: await loadFrame(frame) };
+                    return { data: loaded[cell]!.data, fit: layout.clipFits[clip.id] ?? layout.fit };
+                }));
+                if (isCancelled) return;
+                composed.push({ frame: putFrame(composeFrame(images)), delay: step.delay });
+            }
+            // A GIF may still be encoding from the grid frames about to be released.
+            generationAbortRef.current?.abort();
+            releaseFrames(gridFramesRef.current);
+            gridFramesRef.current = composed;
+            setGridFrames({ key: gridKey, frames: composed });
+            setIsComposing(false);
+        };
+
+        setIsComposing(true);
+        const timeout = window.setTimeout(() => {
+            compose().catch(e => {
+                if (isCancelled) return;
+                console.error("Failed to compose the grid:", e);
+                setIsComposing(false);
+            });
+        }, 300);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timeout);
+            if (composed !== gridFramesRef.current) releaseFrames(composed);
+        };
+    }, [mode, grid, gridKey, gridClips, getClipFrames, outputSize, layout]);
+
+    const handleFilmstripEdit = (edit: FilmstripEdit) => {
+        const next = applyFilmstripEdit(allFrames, edit);
+        const trim = getTrimAfterEdit({ start: trimStart, end: trimEnd }, edit, next.length);
+        commit(FILMSTRIP_EDIT_LABELS[edit.type], { frameEdits: { buildKey, edits: [...(currentEdits?.edits ?? []), edit], trim } });
+    };
+
+    const handleTrimChange = (trim: ClipRange, label: string) => {
+        commit(label, { frameEdits: { buildKey, edits: currentEdits?.edits ?? [], trim } }, label);
+    };
+
+    const getFrameImage = useCallback((index: number) => layoutFrame(allFrames[index]), [allFrames, layoutFrame]);
+
+    const previewFrames = useMemo(() => allFrames.slice(trimStart, trimEnd + 1), [allFrames, trimStart, trimEnd]);
+
+    const getPreviewFrameImage = useCallback((index: number) => layoutFrame(previewFrames[index]), [previewFrames, layoutFrame]);
+
+    // What every export encodes; frames are laid out as the encoder gets to them.
+    const encoderFrames = useMemo(() => createEncoderFrames(previewFrames, layoutFrame), [previewFrames, layoutFrame]);
+
+    // Any change to what would be encoded makes the encoded GIF stale, and cancels one still being encoded.
+    useEffect(() => {
+        generationAbortRef.current?.abort();
+        encodingRef.current = null;
+        setCombinedGif(null);
+        setIsGenerating(false);
+    }, [encoderFrames, encodingSettings, outputLoopCount]);
+
+    const encodeGif = useCallback(async (abortController: AbortController) => {
+        setIsGenerating(true);
+        try {
+            const encoded = await getEncoder('gif').encode(encoderFrames, {
+                quality: encodingSettings.quality,
+                dither: encodingSettings.dither,
+                palette: await resolveEncoderPalette(encoderFrames, encodingSettings),
+                loopCount: outputLoopCount,
+                signal: abortController.signal,
+            });
+            const blob = encodingSettings.optimizeFrames ? await optimizeGif(encoded, encodingSettings.lossyTolerance, abortController.signal) : encoded;
+            if (abortController.signal.aborted) throw new Error('The combination changed while it was being encoded.');
+            setCombinedGif(blob);
+            return blob;
+        } finally {
+            if (!abortController.signal.aborted) setIsGenerating(false);
+        }
+    }, [encoderFrames, encodingSettings, outputLoopCount]);
+
+    // Encodes the combined GIF once for the current frames and settings; later calls share the result.
+    const getCombinedGif = useCallback((): Promise<Blob> => {
+        if (previewFrames.length === 0) return Promise.reject(new Error('There are no frames to encode.'));
+        if (!encodingRef.current) {
+            const abortController = new AbortController();
+            generationAbortRef.current = abortController;
+            const encoding = encodeGif(abortController);
+            encodingRef.current = encoding;
+            // A failed encode is retried next time.
+            encoding.catch(() => {
+                if (encodingRef.current === encoding) encodingRef.current = null;
+            });
+        }
+        return encodingRef.current;
+    }, [previewFrames, encodeGif]);
+
+    // Update trim preview canvases
+    useEffect(() => {
+        if (allFrames.length === 0 || trimEnd >= allFrames.length) return;
+        let isCancelled = false;
+
+        const drawFrame = async (canvas: HTMLCanvasElement | null, frame: CombinedFrame | undefined) => {
+            if (!canvas || !frame) return;
+            // Previews show the frame as laid out in the output.
+            const frameData = await layoutFrame(frame);
+            // A newer trim position may have been chosen while the frame was loading.
+            if (isCancelled) return;
+            const ctx = canvas.getContext('2d');
+            canvas.width = frameData.width;
+            canvas.height = frameData.height;
+            if (ctx) ctx.putImageData(frameData, 0, 0);
+        };
+
+        Promise.all([
+            drawFrame(startFrameCanvasRef.current, allFrames[trimStart]),
+            drawFrame(endFrameCanvasRef.current, allFrames[trimEnd]),
+        ]).catch(e => console.error("Could not load trim preview frames:", e));
+
+        return () => {
+            isCancelled = true;
+        };
+    }, [trimStart, trimEnd, allFrames, layoutFrame]);
+    
+    const handleDragSort = () => {
+        if (dragItem.current === null || dragOverItem.current === null) return;
+        const newOrderedClips = [...clips];
+        const draggedItemContent = newOrderedClips.splice(dragItem.current, 1)[0];
+        newOrderedClips.splice(dragOverItem.current, 0, draggedItemContent);
+        const isMoved = dragItem.current !== dragOverItem.current;
+        dragItem.current = null;
+        dragOverItem.current = null;
+        if (isMoved) commit(`Move ${draggedItemContent.name}`, { clips: newOrderedClips });
+    };
+
+    const handleAddClips = (added: CombineClip[]) => {
+        commit(added.length === 1 ? `Add ${added[0].name}` : `Add ${added.length} clips`, current => ({ clips: [...current.clips, ...added] }));
+    };
+
+    const handleRemoveClip = (clip: CombineClip) => commit(`Remove ${clip.name}`, { clips: clips.filter(c => c.id !== clip.id) });
+
+    const formatExports = useFormatExports(
+        combinedGif,
+        getCombinedGif,
+        encoderFrames,
+        encodingSettings,
+        exportSettings,
+        outputLoopCount
+    );
+
+    const handleDownload = async () => {
+        if (previewFrames.length === 0 || clips.length === 0) return;
+
+        try {
+            const blob = await formatExports.download(outputFormat);
+            triggerDownload(blob, `${sanitizeFilename(clips[0].name)}-combined.${getEncoder(outputFormat).extension}`);
+        } catch (error: any) {
+            console.error("Failed to export the combined GIF:", error);
+            alert(`An error occurred while exporting: ${error.message}`);
+        }
+    };
+
+    const handleShare = async () => {
+        try {
+            onShare(await getCombinedGif(), `${clips[0].name} (Combined)`, combinedSources);
+        } catch (error: any) {
+            console.error("Failed to encode the combined GIF:", error);
+            alert(`An error occurred while encoding: ${error.message}`);
+        }
+    };
+
+    const handleMeasureFormats = () => {
+        formatExports.measure().catch(error => {
+            console.error("Failed to measure output formats:", error);
+            alert(`An error occurred while comparing formats: ${error.message}`);
+        });
+    };
+
+    const handleStartTrimChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const newStart = parseInt(e.target.value, 10);
+        handleTrimChange({ start: Math.min(newStart, trimEnd), end: trimEnd }, 'Trim start');
+    };
+
+    const handleEndTrimChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const newEnd = parseInt(e.target.value, 10);
+        handleTrimChange({ start: trimStart, end: Math.max(newEnd, trimStart) }, 'Trim end');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                <header className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-xl font-bold text-gray-100">Combine & Edit GIF</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={24} /></button>
+                </header>
+
+                <main className="flex-grow p-4 grid grid-cols-1 md:grid-cols-3 gap-6 overflow-y-auto">
+                    <div className="md:col-span-1 flex flex-col gap-2 overflow-y-auto pr-2">
+                        <h3 className="text-lg font-semibold text-gray-300 mb-2">Clips</h3>
+                        {clips.map((clip, index) => {
+                            const OriginIcon = ORIGINS[clip.origin].Icon;
+                            return (
+                                <React.Fragment key={clip.id}>
+                                    {index > 0 && mode === 'sequence' && (
+                                        <TransitionControls
+                                            value={transitions[clip.id] ?? DEFAULT_TRANSITION}
+                                            onChange={transition => commit(`Change transition into ${clip.name}`, { transitions: { ...transitions, [clip.id]: transition } })}
+                                        />
+                                    )}
+                                    <div
+                                        draggable
+                                        onDragStart={() => (dragItem.current = index)}
+                                        onDragEnter={() => (dragOverItem.current = index)}
+                                        onDragEnd={handleDragSort}
+                                        onDragOver={(e) => e.preventDefault()}
+                                        className="flex items-center gap-3 p-2 bg-gray-700 rounded-md cursor-grab active:cursor-grabbing"
+                                    >
+                                        <MoveVertical className="text-gray-400 flex-shrink-0" size={20} />
+                                        <img src={clip.previewUrl} alt={clip.name} className="w-16 h-16 object-cover rounded flex-shrink-0" />
+                                        <div className="min-w-0 flex-grow flex flex-col gap-1">
+                                            <div className="flex items-center gap-1.5 min-w-0">
+                                                <OriginIcon size={14} className="text-gray-400 flex-shrink-0" aria-label={ORIGINS[clip.origin].label} />
+                                                <span className="font-semibold text-gray-200 truncate" title={[clip.name, ...clip.comments].join('\n')}>{clip.name}</span>
+                                                <button onClick={() => handleRemoveClip(clip)} className="ml-auto text-gray-400 hover:text-white flex-shrink-0" title="Remove clip" aria-label={`Remove ${clip.name}`}><X size={14} /></button>
+                                            </div>
+                                            <PlaybackControls
+                                                value={getPlayback(clip)}
+                                                onChange={playback => commit(`Change playback of ${clip.name}`, { clipPlayback: { ...clipPlayback, [clip.id]: playback } })}
+                                                loopLabel="Repeat"
+                                                allowForever={false}
+                                            />
+                                            <ClipRangeControls
+                                                frameCount={clip.frames.length}
+                                                value={clipRanges[clip.id]}
+                                                onChange={range => commit(`Change in/out points of ${clip.name}`, { clipRanges: { ...clipRanges, [clip.id]: range } }, `range-${clip.id}`)}
+                                            />
+                                            {(mode === 'grid' || clip.width !== outputSize.width || clip.height !== outputSize.height) && (
+                                                <label className="flex items-center gap-1 text-[11px] text-gray-400">
+                                                    {clip.width}×{clip.height}
+                                                    <select
+                                                        value={layout.clipFits[clip.id] ?? layout.fit}
+                                                        onChange={e => commit(`Change fit of ${clip.name}`, { layout: { ...layout, clipFits: { ...layout.clipFits, [clip.id]: e.target.value as ClipFit } } })}
+                                                        className="bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-[11px] text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+                                                    >
+                                                        {CLIP_FIT_OPTIONS.map(option => (
+                                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                                        ))}
+                                                    </select>
+                                                </label>
+                                            )}
+                                        </div>
+                                    </div>
+                                </React.Fragment>
+                            );
+                        })}
+                        {clips.length === 0 && <p className="text-sm text-gray-500">Add scenes, GIFs or library items to combine.</p>}
+                        <AddClipsPanel
+                            scenes={availableScenes.filter(scene => !clips.some(clip => clip.id === scene.id))}
+                            onAdd={handleAddClips}
+                        />
+                        <HistoryPanel
+                            entries={history.entries}
+                            position={history.position}
+                            onUndo={history.undo}
+                            onRedo={history.redo}
+                            onGoTo={history.goTo}
+                            className="mt-2"
+                        />
+                    </div>
+                    
+                    <div className="md:col-span-2 flex flex-col gap-4">
+                        <h3 className="text-lg font-semibold text-gray-300">Preview & Trim</h3>
+                        <div className="relative w-full aspect-video bg-gray-900 rounded-lg flex items-center justify-center overflow-hidden">
+                            {isComposing && <Loader size="lg" />}
+                            {!isComposing && previewFrames.length > 0 && <FramePlayer frames={previewFrames} getFrameImage={getPreviewFrameImage} />}
+                            {!isComposing && previewFrames.length === 0 && <p className="text-gray-500">No preview available</p>}
+                        </div>
+
+                        <GridLayoutControls
+                            mode={mode}
+                            onModeChange={next => commit(next === 'grid' ? 'Arrange side by side' : 'Arrange one after another', { mode: next })}
+                            grid={grid}
+                            onChange={next => commit('Change grid', { grid: next }, 'grid')}
+                            clips={clips}
+                            cellClipIds={gridCellClipIds}
+                        />
+                        <CombineLayoutControls layout={layout} onChange={next => commit('Change layout', { layout: next }, 'layout')} outputSize={outputSize} hasMixedSizes={hasMixedSizes} />
+                        <div className="bg-gray-700 p-4 rounded-lg">
+                            <div className="flex items-center gap-3 mb-3">
+                                <Scissors size={20} className="text-indigo-400"/>
+                                <h4 className="font-semibold text-gray-200">Trimming Timeline</h4>
+                            </div>
+
+                            <div className="flex justify-between items-start gap-4 mb-4">
+                                <div className="flex-1 text-center">
+                                    <h5 className="text-sm font-medium text-gray-300 mb-1">Start Frame: {trimStart}{getTransitionLabel(allFrames[trimStart])}</h5>
+                                    <p className="text-xs text-indigo-300 font-mono mb-2">@{formatTime(startTime)}</p>
+                                    <canvas 
+                                        ref={startFrameCanvasRef}
+                                        className="w-full aspect-video bg-gray-900 rounded border border-gray-600 object-contain"
+                                        aria-label={`Preview of start frame ${trimStart}`}
+                                    ></canvas>
+                                </div>
+                                <div className="flex-1 text-center">
+                                    <h5 className="text-sm font-medium text-gray-300 mb-1">End Frame: {trimEnd}{getTransitionLabel(allFrames[trimEnd])}</h5>
+                                    <p className="text-xs text-indigo-300 font-mono mb-2">@{formatTime(endTime)}</p>
+                                    <canvas 
+                                        ref={endFrameCanvasRef}
+                                        className="w-full aspect-video bg-gray-900 rounded border border-gray-600 object-contain"
+                                        aria-label={`Preview of end frame ${trimEnd}`}
+                                    ></canvas>
+                                </div>
+                            </div>
+                            
+                            <div className="flex flex-col gap-2 text-sm text-gray-400">
+                                <div className="relative h-5">
+                                    <TimelineTransitions frames={allFrames} />
+                                    <input type="range" min={0} max={allFrames.length > 0 ? allFrames.length - 1 : 0} value={trimStart} onChange={handleStartTrimChange} aria-label="Trim start frame" className="absolute w-full h-2 top-1/2 -translate-y-1/2 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto" />
+                                    <input type="range" min={0} max={allFrames.length > 0 ? allFrames.length - 1 : 0} value={trimEnd} onChange={handleEndTrimChange} aria-label="Trim end frame" className="absolute w-full h-2 top-1/2 -translate-y-1/2 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto" />
+                                </div>
+                                <div className="flex justify-between">
+                                     <span>Total: {allFrames.length} frames ({formatTime(totalDuration)})</span>
+                                     <span>Selected: {trimEnd >= trimStart ? trimEnd - trimStart + 1 : 0} frames ({formatTime(selectedDuration)})</span>
+                                </div>
+                                {combinedSources.length > 0 && (
+                                    <p className="text-xs text-gray-500 truncate" title={combinedSources[0].sourceName}>
+                                        From source: {combinedSources.map(formatSourceMoment).join(', ')}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+
+                        <FrameFilmstrip
+                            frames={allFrames}
+                            clipIds={mode === 'grid' ? [GRID_CLIP_ID] : clips.map(clip => clip.id)}
+                            trimStart={trimStart}
+                            trimEnd={trimEnd}
+                            getFrameImage={getFrameImage}
+                            onEdit={handleFilmstripEdit}
+                        />
+                    </div>
+                </main>
+
+                <footer className="flex flex-wrap justify-end items-center gap-4 p-4 border-t border-gray-700">
+                    <div className="mr-auto flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            Plays
+                            <select
+                                value={outputLoopCount}
+                                onChange={e => commit('Change plays', { outputLoopCount: Number(e.target.value) })}
+                                className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                                {LOOP_COUNT_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.value === 0 ? 'Forever' : option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <FormatPicker
+                            value={outputFormat}
+                            onChange={setOutputFormat}
+                            sizes={formatExports.sizes}
+                            onMeasure={handleMeasureFormats}
+                            isMeasuring={formatExports.isExporting}
+                            disabled={previewFrames.length === 0 || isComposing}
+                        />
+                    </div>
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-all">Cancel</button>
+                    
+                    <button 
+                        onClick={handleShare}
+                        disabled={previewFrames.length === 0 || isGenerating || isComposing}
+                        className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-lg hover:opacity-90 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all shadow-lg shadow-indigo-500/20"
+                    >
+                        {isGenerating && !formatExports.isExporting ? <Loader size="sm" /> : <Share2 size={18} />}
+                        Add to Library
+                    </button>
+
+                    <button 
+                        onClick={handleDownload}
+                        disabled={previewFrames.length === 0 || isGenerating || isComposing || formatExports.isExporting}
+                        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all"
+                    >
+                        {formatExports.isExporting ? <Loader size="sm" /> : <Download size={18} />}
+                        Download {getEncoder(outputFormat).label}
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default CombineWorkspace;
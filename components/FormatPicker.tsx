@@ -0,0 +1,50 @@
+import React from 'react';
+import type { OutputFormat } from '../types';
+import { getEncoders } from '../utils/encoders';
+import Loader from './Loader';
+
+interface FormatPickerProps {
+    value: OutputFormat;
+    onChange: (format: OutputFormat) => void;
+    sizes?: Partial<Record<OutputFormat, number>>; // File size of each format that has been measured
+    onMeasure?: () => void;                        // Measures the missing sizes; omitted where sizes aren't shown
+    isMeasuring?: boolean;
+    disabled?: boolean;
+}
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const FormatPicker: React.FC<FormatPickerProps> = ({ value, onChange, sizes = {}, onMeasure, isMeasuring = false, disabled = false }) => {
+    const encoders = getEncoders();
+    const hasMissingSizes = encoders.some(encoder => sizes[encoder.format] === undefined);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <div className="flex rounded-lg overflow-hidden border border-gray-600" role="radiogroup" aria-label="Output format">
+                {encoders.map(encoder => (
+                    <button
+                        key={encoder.format}
+                        onClick={() => onChange(encoder.format)}
+                        disabled={disabled}
+                        role="radio"
+                        aria-checked={value === encoder.format}
+                        className={`px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${value === encoder.format ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    >
+                        {encoder.label}
+                        {sizes[encoder.format] !== undefined && (
+                            <span className="ml-1.5 text-xs font-normal opacity-80">{formatBytes(sizes[encoder.format]!)}</span>
+                        )}
+                    </button>
+                ))}
+            </div>
+            {onMeasure && hasMissingSizes && (
+                <button onClick={onMeasure} disabled={disabled || isMeasuring} className="flex items-center gap-1.5 text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50">
+                    {isMeasuring && <Loader size="xs" />}
+                    {isMeasuring ? 'Measuring...' : 'Compare sizes'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default FormatPicker;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Film, ChevronLeft, ChevronRight, Copy, Trash2, Clock } from 'lucide-react';
+import type { FilmstripEdit } from '../utils/filmstrip';
+
+interface FrameFilmstripProps {
+    frames: { clipId: string; delay: number; transition?: unknown }[]; // The combined frames, as they will be encoded
+    clipIds: string[];  // The clips in order, to colour each frame by its clip
+    trimStart: number;
+    trimEnd: number;
+    getFrameImage: (index: number) => Promise<ImageData>; // The frame as laid out in the output
+    onEdit: (edit: FilmstripEdit) => void;
+}
+
+const THUMBNAIL_HEIGHT = 48;
+const CLIP_COLORS = ['bg-indigo-400', 'bg-emerald-400', 'bg-amber-400', 'bg-sky-400', 'bg-rose-400', 'bg-lime-400'];
+
+const FrameThumbnail: React.FC<{ index: number, getFrameImage: (index: number) => Promise<ImageData>, scrollRoot: React.RefObject<HTMLDivElement | null> }> = ({ index, getFrameImage, scrollRoot }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+
+    // Frames are only drawn once scrolled into view, since a combination can have hundreds.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), { root: scrollRoot.current, rootMargin: '200px' });
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, [scrollRoot]);
+
+    useEffect(() => {
+        if (!isVisible) return;
+        let isCancelled = false;
+        getFrameImage(index).then(data => {
+            const canvas = canvasRef.current;
+            if (isCancelled || !canvas) return;
+            // Scale down through a full-size canvas so each thumbnail only keeps a small bitmap.
+            const full = document.createElement('canvas');
+            full.width = data.width;
+            full.height = data.height;
+            full.getContext('2d')?.putImageData(data, 0, 0);
+            canvas.height = THUMBNAIL_HEIGHT;
+            canvas.width = Math.max(1, Math.round(THUMBNAIL_HEIGHT * data.width / data.height));
+            canvas.getContext('2d')?.drawImage(full, 0, 0, canvas.width, canvas.height);
+        }).catch(e => console.error("Could not load filmstrip frame:", e));
+        return () => {
+            isCancelled = true;
+        };
+    }, [isVisible, index, getFrameImage]);
+
+    return <canvas ref={canvasRef} height={THUMBNAIL_HEIGHT} className="h-12 w-auto max-w-[96px] bg-gray-900 rounded-sm" />;
+};
+
+const FrameFilmstrip: React.FC<FrameFilmstripProps> = ({ frames, clipIds, trimStart, trimEnd, getFrameImage, onEdit }) => {
+    const [selection, setSelection] = useState<{ start: number, end: number } | null>(null);
+    const [anchor, setAnchor] = useState(0);
+    const [delayInput, setDelayInput] = useState('');
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const dragOverIndex = useRef<number | null>(null);
+
+    // A rebuilt filmstrip no longer has the selected frames.
+    useEffect(() => {
+        setSelection(prev => prev && prev.end < frames.length ? prev : null);
+    }, [frames.length]);
+
+    useEffect(() => {
+        if (selection) setDelayInput(String(Math.round(frames[selection.start]?.delay ?? 0)));
+    }, [selection, frames]);
+
+    const handleFrameClick = (e: React.MouseEvent, index: number) => {
+        if (e.shiftKey && selection) {
+            setSelection({ start: Math.min(anchor, index), end: Math.max(anchor, index) });
+        } else {
+            setAnchor(index);
+            setSelection({ start: index, end: index });
+        }
+    };
+
+    const edit = (change: FilmstripEdit, nextSelection: { start: number, end: number } | null) => {
+        onEdit(change);
+        setSelection(nextSelection);
+        if (nextSelection) setAnchor(nextSelection.start);
+    };
+
+    const move = (to: number) => {
+        if (!selection) return;
+        const count = selection.end - selection.start;
+        edit({ type: 'move', ...selection, to }, { start: to, end: to + count });
+    };
+
+    const handleDrop = () => {
+        const target = dragOverIndex.current;
+        dragOverIndex.current = null;
+        if (!selection || target === null || (target >= selection.start && target <= selection.end)) return;
+        // Dropping on a later frame places the range after it, on an earlier one before it.
+        move(target > selection.end ? target - (selection.end - selection.start) : target);
+    };
+
+    const handleDelayApply = () => {
+        const delay = parseInt(delayInput, 10);
+        if (!selection || !Number.isFinite(delay)) return;
+        if (frames.slice(selection.start, selection.end + 1).every(frame => Math.round(frame.delay) === delay)) return;
+        edit({ type: 'delay', ...selection, delay }, selection);
+    };
+
+    const selectedCount = selection ? selection.end - selection.start + 1 : 0;
+    const buttonClassName = 'p-1.5 rounded bg-gray-800 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <div className="flex items-center gap-3 mb-3">
+                <Film size={20} className="text-indigo-400" />
+                <h4 className="font-semibold text-gray-200">Filmstrip</h4>
+                {selection && (
+                    <div className="ml-auto flex items-center gap-1.5">
+                        <span className="text-xs text-gray-400 mr-1">
+                            {selectedCount === 1 ? `Frame ${selection.start}` : `Frames ${selection.start}–${selection.end}`}
+                        </span>
+                        <button onClick={() => move(selection.start - 1)} disabled={selection.start === 0} className={buttonClassName} title="Move earlier" aria-label="Move earlier"><ChevronLeft size={14} /></button>
+                        <button onClick={() => move(selection.start + 1)} disabled={selection.end === frames.length - 1} className={buttonClassName} title="Move later" aria-label="Move later"><ChevronRight size={14} /></button>
+                        <button onClick={() => edit({ type: 'duplicate', ...selection }, { start: selection.end + 1, end: selection.end + selectedCount })} className={buttonClassName} title="Duplicate" aria-label="Duplicate"><Copy size={14} /></button>
+                        <button onClick={() => edit({ type: 'delete', ...selection }, null)} disabled={selectedCount === frames.length} className={buttonClassName} title="Delete" aria-label="Delete"><Trash2 size={14} /></button>
+                        <label className="flex items-center gap-1 text-xs text-gray-400 ml-1">
+                            <Clock size={14} />
+                            <input
+                                type="number"
+                                min={20}
+                                step={10}
+                                value={delayInput}
+                                onChange={e => setDelayInput(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && handleDelayApply()}
+                                onBlur={handleDelayApply}
+                                aria-label="Delay in milliseconds"
+                                className="w-16 bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-xs text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            ms
+                        </label>
+                    </div>
+                )}
+            </div>
+
+            <div ref={scrollRef} className="flex gap-1 overflow-x-auto pb-2">
+                {frames.map((frame, index) => {
+                    const isSelected = selection !== null && index >= selection.start && index <= selection.end;
+                    const isTrimmed = index < trimStart || index > trimEnd;
+                    return (
+                        <div
+                            key={index}
+                            draggable
+                            onClick={e => handleFrameClick(e, index)}
+                            onDragStart={() => !isSelected && setSelection({ start: index, end: index })}
+                            onDragEnter={() => (dragOverIndex.current = index)}
+                            onDragOver={e => e.preventDefault()}
+                            onDragEnd={handleDrop}
+                            className={`flex-shrink-0 flex flex-col gap-0.5 p-0.5 rounded cursor-pointer border ${isSelected ? 'border-indigo-400 bg-indigo-500/20' : 'border-transparent hover:bg-gray-600'} ${isTrimmed ? 'opacity-30' : ''}`}
+                            title={`Frame ${index}${frame.transition ? ' (transition)' : ''}`}
+                        >
+                            <div className={`h-1 rounded-full ${frame.transition ? 'bg-purple-400' : CLIP_COLORS[clipIds.indexOf(frame.clipId) % CLIP_COLORS.length]}`} />
+                            <FrameThumbnail index={index} getFrameImage={getFrameImage} scrollRoot={scrollRef} />
+                            <span className="text-[10px] text-gray-400 font-mono text-center">{index} · {Math.round(frame.delay)}ms</span>
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+                Click a frame to select it, Shift-click to select a range, and drag to move it. Frames outside the trim are faded.
+                Changing the order, playback, transitions or in/out points rebuilds the filmstrip.
+            </p>
+        </div>
+    );
+};
+
+export default FrameFilmstrip;
@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { MemoryStick } from 'lucide-react';
+import { subscribeToFrameStore, type FrameStoreUsage } from '../utils/frameStore';
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const FrameMemoryIndicator: React.FC = () => {
+    const [usage, setUsage] = useState<FrameStoreUsage | null>(null);
+
+    useEffect(() => subscribeToFrameStore(setUsage), []);
+
+    if (!usage || usage.frameCount === 0) return null;
+
+    const percent = Math.min(100, (usage.memoryBytes / usage.budgetBytes) * 100);
+    const overflow = [
+        usage.compressedBytes > 0 && `${formatBytes(usage.compressedBytes)} compressed`,
+        usage.diskBytes > 0 && `${formatBytes(usage.diskBytes)} on disk`,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div className="flex items-center gap-2 text-xs text-gray-400" title={`${usage.frameCount} stored frames. Frames beyond the memory budget are compressed, then moved to disk.`}>
+            <MemoryStick size={14} className={percent >= 100 ? 'text-amber-400' : 'text-gray-500'} />
+            <div className="w-24 bg-gray-700 rounded-full h-1.5">
+                <div className={`h-1.5 rounded-full ${percent >= 100 ? 'bg-amber-400' : 'bg-indigo-500'}`} style={{ width: `${percent}%` }}></div>
+            </div>
+            <span>{formatBytes(usage.memoryBytes)} / {formatBytes(usage.budgetBytes)}</span>
+            {overflow && <span className="text-gray-500">({overflow})</span>}
+        </div>
+    );
+};
+
+export default FrameMemoryIndicator;
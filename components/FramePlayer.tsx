@@ -0,0 +1,90 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, StepBack, StepForward } from 'lucide-react';
+
+interface FramePlayerProps {
+    frames: { delay: number }[];                          // The frames to play, in order
+    getFrameImage: (index: number) => Promise<ImageData>; // The frame as it will be encoded
+}
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const FramePlayer: React.FC<FramePlayerProps> = ({ frames, getFrameImage }) => {
+    const [index, setIndex] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(true);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // A shorter frame list may no longer have the current frame.
+    useEffect(() => {
+        setIndex(prev => prev < frames.length ? prev : 0);
+    }, [frames.length]);
+
+    // Draws the current frame and, while playing, moves on once its delay has passed. The time spent
+    // loading the frame counts towards its delay, so slow loads only hold up playback when they take longer.
+    useEffect(() => {
+        const frame = frames[index];
+        if (!frame) return;
+        let isCancelled = false;
+        let timeout: number | null = null;
+        const loadStarted = performance.now();
+
+        getFrameImage(index).then(data => {
+            const canvas = canvasRef.current;
+            if (isCancelled || !canvas) return;
+            if (canvas.width !== data.width || canvas.height !== data.height) {
+                canvas.width = data.width;
+                canvas.height = data.height;
+            }
+            canvas.getContext('2d')?.putImageData(data, 0, 0);
+            if (isPlaying && frames.length > 1) {
+                const wait = Math.max(0, frame.delay - (performance.now() - loadStarted));
+                timeout = window.setTimeout(() => setIndex(prev => (prev + 1) % frames.length), wait);
+            }
+        }).catch(e => console.error("Could not load preview frame:", e));
+
+        return () => {
+            isCancelled = true;
+            if (timeout !== null) clearTimeout(timeout);
+        };
+    }, [index, isPlaying, frames, getFrameImage]);
+
+    const step = (offset: number) => {
+        setIsPlaying(false);
+        setIndex(prev => (prev + offset + frames.length) % frames.length);
+    };
+
+    const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setIsPlaying(false);
+        setIndex(parseInt(e.target.value, 10));
+    };
+
+    const elapsed = frames.slice(0, index).reduce((total, frame) => total + frame.delay, 0);
+    const duration = frames.reduce((total, frame) => total + frame.delay, 0);
+    const buttonClassName = 'p-1.5 rounded text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+    return (
+        <div className="relative w-full h-full flex flex-col">
+            <div className="flex-grow min-h-0 flex items-center justify-center">
+                <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" aria-label="Combined preview" />
+            </div>
+            <div className="flex items-center gap-2 px-2 py-1.5 bg-gray-800/90">
+                <button onClick={() => step(-1)} disabled={frames.length < 2} className={buttonClassName} title="Previous frame" aria-label="Previous frame"><StepBack size={16} /></button>
+                <button onClick={() => setIsPlaying(prev => !prev)} disabled={frames.length < 2} className={buttonClassName} title={isPlaying ? 'Pause' : 'Play'} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button onClick={() => step(1)} disabled={frames.length < 2} className={buttonClassName} title="Next frame" aria-label="Next frame"><StepForward size={16} /></button>
+                <input
+                    type="range"
+                    min={0}
+                    max={Math.max(0, frames.length - 1)}
+                    value={index}
+                    onChange={handleScrub}
+                    aria-label="Preview position"
+                    className="flex-grow accent-indigo-500"
+                />
+                <span className="text-xs text-gray-400 font-mono whitespace-nowrap">{formatTime(elapsed)} / {formatTime(duration)}</span>
+            </div>
+        </div>
+    );
+};
+
+export default FramePlayer;
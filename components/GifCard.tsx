@@ -1,15 +1,23 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { GifScene } from '../types';
-import { Edit2, Check } from 'lucide-react';
+import type { GifScene, PlaybackSettings } from '../types';
+import { Edit2, Check, ExternalLink, SlidersHorizontal } from 'lucide-react';
+import Loader from './Loader';
+import PlaybackControls from './PlaybackControls';
+import { getSourceMomentLink, formatSourceMoment } from '../utils/sourceMoment';
 
 interface GifCardProps {
     scene: GifScene;
     onSelect: (id: string) => void;
     onNameChange: (id: string, newName: string) => void;
+    onEditEncoding?: (id: string) => void; // Omitted while the scene can't be re-encoded
+    onPlaybackChange?: (id: string, playback: PlaybackSettings) => void; // Also omitted while it can't
+    isEncoding?: boolean;
 }
 
-const GifCard: React.FC<GifCardProps> = ({ scene, onSelect, onNameChange }) => {
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const GifCard: React.FC<GifCardProps> = ({ scene, onSelect, onNameChange, onEditEncoding, onPlaybackChange, isEncoding = false }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [currentName, setCurrentName] = useState(scene.name);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -51,6 +59,9 @@ const GifCard: React.FC<GifCardProps> = ({ scene, onSelect, onNameChange }) => {
         e.stopPropagation();
     };
 
+    const { source, encoding, encodeReport } = scene;
+    const sourceLink = getSourceMomentLink(source);
+
     return (
         <div
             className={`relative rounded-lg overflow-hidden border-2 transition-all duration-300 cursor-pointer group ${scene.isSelected ? 'border-indigo-500 scale-105 shadow-2xl shadow-indigo-500/30' : 'border-gray-700'}`}
@@ -96,8 +107,56 @@ const GifCard: React.FC<GifCardProps> = ({ scene, onSelect, onNameChange }) => {
                         </button>
                     </div>
                 )}
+                <div className="flex items-center gap-1 mt-1 text-[11px] text-gray-300 font-mono" title={source.sourceName}>
+                    <span className="truncate">{formatSourceMoment(source)} · frames {source.startFrame}–{source.endFrame - 1}</span>
+                    {sourceLink && (
+                        <a href={sourceLink} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white flex-shrink-0" aria-label={`Open ${source.sourceName} at this moment`}>
+                            <ExternalLink size={12} />
+                        </a>
+                    )}
+                </div>
+                <p
+                    className={`mt-0.5 text-[11px] font-mono truncate ${encodeReport.fitsTarget ? 'text-gray-400' : 'text-amber-400'}`}
+                    title={[
+                        encodeReport.unoptimizedSize > encodeReport.size && `Frame optimization: ${formatBytes(encodeReport.unoptimizedSize)} → ${formatBytes(encodeReport.size)}`,
+                        encoding.targetSize > 0 && `Target ${formatBytes(encoding.targetSize)}, found in ${encodeReport.attempts} encode${encodeReport.attempts === 1 ? '' : 's'}`,
+                    ].filter(Boolean).join('\n') || undefined}
+                >
+                    {encodeReport.unoptimizedSize > encodeReport.size && <span className="line-through opacity-60">{formatBytes(encodeReport.unoptimizedSize)}</span>}
+                    {encodeReport.unoptimizedSize > encodeReport.size && ' → '}
+                    {formatBytes(encodeReport.size)}
+                    {encoding.targetSize > 0 && ` / ${formatBytes(encoding.targetSize)}`}
+                    {` · ${encodeReport.resolution}px · ${encodeReport.paletteSize} col · q${encodeReport.quality}`}
+                    {encodeReport.frameStep > 1 && ` · 1/${encodeReport.frameStep} frames`}
+                </p>
+                {onPlaybackChange && (
+                    <div className="mt-1.5">
+                        <PlaybackControls
+                            value={encoding.playback}
+                            onChange={playback => onPlaybackChange(scene.id, playback)}
+                            disabled={isEncoding}
+                        />
+                    </div>
+                )}
             </div>
 
+            {isEncoding && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                    <Loader size="md" />
+                </div>
+            )}
+
+            {onEditEncoding && !isEncoding && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onEditEncoding(scene.id); }}
+                    className="absolute top-3 left-3 p-1.5 bg-gray-900/70 text-gray-200 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-indigo-600 transition-all"
+                    aria-label={`Re-encode ${currentName}`}
+                    title="Re-encode with different settings"
+                >
+                    <SlidersHorizontal size={14} />
+                </button>
+            )}
+
             <input
                 type="checkbox"
                 readOnly
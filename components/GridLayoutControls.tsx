@@ -0,0 +1,132 @@
+import React from 'react';
+import type { CombineMode, GridFill, GridLayout, GridTemplate } from '../types';
+import { LayoutGrid } from 'lucide-react';
+import { GRID_FILL_OPTIONS, GRID_GUTTER_OPTIONS, GRID_TEMPLATES, getGridTemplate } from '../utils/grid';
+
+interface GridLayoutControlsProps {
+    mode: CombineMode;
+    onModeChange: (mode: CombineMode) => void;
+    grid: GridLayout;
+    onChange: (grid: GridLayout) => void;
+    clips: { id: string; name: string }[];
+    cellClipIds: (string | null)[]; // The clip each cell shows, as resolved from the grid
+}
+
+const MODES: { value: CombineMode; label: string }[] = [
+    { value: 'sequence', label: 'One After Another' },
+    { value: 'grid', label: 'Side by Side' },
+];
+
+const selectClassName = 'w-full bg-gray-800 border border-gray-600 rounded-md py-1.5 px-2 text-sm text-white focus:ring-indigo-500 focus:border-indigo-500';
+
+// Positions a template's cells with CSS grid, for the template pickers and the cell assignment.
+const TemplateCells: React.FC<{ template: GridTemplate, gap: string, renderCell: (index: number) => React.ReactNode }> = ({ template, gap, renderCell }) => (
+    <div
+        className={`grid w-full h-full ${gap}`}
+        style={{ gridTemplateColumns: `repeat(${template.columns}, 1fr)`, gridTemplateRows: `repeat(${template.rows}, 1fr)` }}
+    >
+        {template.cells.map((cell, i) => (
+            <div key={i} className="min-w-0 min-h-0" style={{ gridColumn: `${cell.x + 1} / span ${cell.width}`, gridRow: `${cell.y + 1} / span ${cell.height}` }}>
+                {renderCell(i)}
+            </div>
+        ))}
+    </div>
+);
+
+const GridLayoutControls: React.FC<GridLayoutControlsProps> = ({ mode, onModeChange, grid, onChange, clips, cellClipIds }) => {
+    const template = getGridTemplate(grid.template);
+
+    return (
+        <div className="bg-gray-700 p-4 rounded-lg">
+            <div className="flex items-center gap-3 mb-3">
+                <LayoutGrid size={20} className="text-indigo-400" />
+                <h4 className="font-semibold text-gray-200">Arrangement</h4>
+                <div className="ml-auto flex rounded-md overflow-hidden border border-gray-600" role="radiogroup" aria-label="Arrangement">
+                    {MODES.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => onModeChange(option.value)}
+                            role="radio"
+                            aria-checked={mode === option.value}
+                            className={`px-2 py-1 text-xs font-semibold transition-colors ${mode === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'grid' && (
+                <div className="flex flex-col gap-3">
+                    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Grid template">
+                        {GRID_TEMPLATES.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => onChange({ ...grid, template: option.id, cells: {} })}
+                                role="radio"
+                                aria-checked={option.id === template.id}
+                                title={option.label}
+                                aria-label={option.label}
+                                className={`w-12 h-9 p-1 rounded border transition-colors ${option.id === template.id ? 'border-indigo-400 bg-indigo-500/20' : 'border-gray-600 bg-gray-800 hover:bg-gray-600'}`}
+                            >
+                                <TemplateCells template={option} gap="gap-0.5" renderCell={() => <div className="w-full h-full rounded-sm bg-gray-400" />} />
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs text-gray-300">
+                            Gutter
+                            <select
+                                value={grid.gutter}
+                                onChange={e => onChange({ ...grid, gutter: Number(e.target.value) })}
+                                className={`${selectClassName} mt-1`}
+                            >
+                                {GRID_GUTTER_OPTIONS.map(gutter => (
+                                    <option key={gutter} value={gutter}>{gutter === 0 ? 'None' : `${gutter}px`}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-300">
+                            Shorter Clips
+                            <select
+                                value={grid.fill}
+                                onChange={e => onChange({ ...grid, fill: e.target.value as GridFill })}
+                                className={`${selectClassName} mt-1`}
+                            >
+                                {GRID_FILL_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="aspect-video w-full max-w-xs">
+                        <TemplateCells
+                            template={template}
+                            gap="gap-1"
+                            renderCell={i => (
+                                <div className="w-full h-full flex items-center justify-center p-1 bg-gray-800 border border-gray-600 rounded">
+                                    <select
+                                        value={cellClipIds[i] ?? ''}
+                                        onChange={e => onChange({ ...grid, cells: { ...grid.cells, [i]: e.target.value || null } })}
+                                        aria-label={`Clip in cell ${i + 1}`}
+                                        className="w-full bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-[11px] text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+                                    >
+                                        <option value="">Empty</option>
+                                        {clips.map(clip => (
+                                            <option key={clip.id} value={clip.id}>{clip.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-400">Every cell plays at once, for as long as the longest clip. Gutters and empty cells use the layout's background colour.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GridLayoutControls;
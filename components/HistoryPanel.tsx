@@ -0,0 +1,53 @@
+import React from 'react';
+import { History, Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+    entries: { id: number; label: string }[];
+    position: number;                      // Entries before this have been done; the rest can be redone
+    onUndo: () => void;
+    onRedo: () => void;
+    onGoTo: (position: number) => void;
+    notice?: string | null;                // Why earlier entries are gone, when they were cleared
+    className?: string;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, position, onUndo, onRedo, onGoTo, notice, className = '' }) => {
+    const buttonClassName = 'p-1.5 rounded bg-gray-800 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+    const itemClassName = (isCurrent: boolean, isUndone: boolean) =>
+        `w-full text-left px-2 py-1 rounded text-xs truncate transition-colors ${isCurrent ? 'bg-indigo-500/30 text-white' : isUndone ? 'text-gray-500 hover:bg-gray-600' : 'text-gray-300 hover:bg-gray-600'}`;
+
+    return (
+        <div className={`bg-gray-700 p-4 rounded-lg ${className}`}>
+            <div className="flex items-center gap-3 mb-3">
+                <History size={20} className="text-indigo-400" />
+                <h4 className="font-semibold text-gray-200">History</h4>
+                <div className="ml-auto flex items-center gap-1.5">
+                    <button onClick={onUndo} disabled={position === 0} className={buttonClassName} title="Undo (Ctrl+Z)" aria-label="Undo"><Undo2 size={14} /></button>
+                    <button onClick={onRedo} disabled={position === entries.length} className={buttonClassName} title="Redo (Ctrl+Shift+Z)" aria-label="Redo"><Redo2 size={14} /></button>
+                </div>
+            </div>
+            {/* Newest first; choosing an entry undoes or redoes everything up to it. */}
+            <ol className="flex flex-col gap-0.5 max-h-48 overflow-y-auto">
+                {[...entries].reverse().map((entry, i) => {
+                    const index = entries.length - 1 - i;
+                    return (
+                        <li key={entry.id}>
+                            <button onClick={() => onGoTo(index + 1)} className={itemClassName(index === position - 1, index >= position)} title={entry.label}>
+                                {entry.label}
+                            </button>
+                        </li>
+                    );
+                })}
+                <li>
+                    <button onClick={() => onGoTo(0)} className={itemClassName(position === 0, false)}>
+                        Start
+                    </button>
+                </li>
+            </ol>
+            {notice && <p className="text-xs text-amber-300 mt-2">{notice}</p>}
+            {entries.length === 0 && !notice && <p className="text-xs text-gray-500 mt-1">Changes show up here and can be undone with Ctrl+Z.</p>}
+        </div>
+    );
+};
+
+export default HistoryPanel;
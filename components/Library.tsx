@@ -3,7 +3,8 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { getLibraryItems, isConfigured, updateItemCategories } from '../utils/storage';
 import type { LibraryItem } from '../types';
 import Loader from './Loader';
-import { Download, Image as ImageIcon, AlertTriangle, Edit2, X, Check } from 'lucide-react';
+import { Download, Image as ImageIcon, AlertTriangle, Edit2, X, Check, ExternalLink } from 'lucide-react';
+import { getSourceMomentLink, formatSourceMoment } from '../utils/sourceMoment';
 
 const CATEGORIES = [
     'All', 'Beauty', 'Fashion', 'M&E', 'Sport', 'Auto', 'Telco', 'Tech', 'Retail', 'Food', 'Beverage', 'Care', 'FinServ'
@@ -184,6 +185,10 @@ const Library: React.FC<LibraryProps> = ({ currentUser }) => {
                                         </button>
                                     </div>
                                     
+                                    {item.sources && item.sources.length > 0 && (
+                                        <SourceCaption item={item} />
+                                    )}
+
                                     {currentUser && (
                                         <button 
                                             onClick={(e) => {
@@ -222,6 +227,24 @@ const Library: React.FC<LibraryProps> = ({ currentUser }) => {
     );
 };
 
+// Shows where the GIF was taken from, linking to that moment when the source was a link.
+const SourceCaption: React.FC<{ item: LibraryItem }> = ({ item }) => {
+    const moment = item.sources![0];
+    const link = getSourceMomentLink(moment);
+    const label = `${formatSourceMoment(moment)}${item.sources!.length > 1 ? ` +${item.sources!.length - 1}` : ''}`;
+    const className = "absolute bottom-2 left-2 max-w-[75%] flex items-center gap-1 px-2 py-0.5 bg-black/60 backdrop-blur-md text-white text-[10px] rounded-full border border-white/10 font-mono";
+
+    if (!link) {
+        return <span className={className} title={moment.sourceName}>{label}</span>;
+    }
+    return (
+        <a href={link} target="_blank" rel="noopener noreferrer" className={`${className} hover:bg-indigo-600`} title={`Open ${moment.sourceName} at this moment`}>
+            <ExternalLink size={10} className="flex-shrink-0" />
+            <span className="truncate">{label}</span>
+        </a>
+    );
+};
+
 // Sub-component for the edit logic to keep main component clean
 const EditCategoryContent: React.FC<{ item: LibraryItem, onSave: (id: string, cats: string[]) => void }> = ({ item, onSave }) => {
     const [selected, setSelected] = useState<string[]>(item.categories);
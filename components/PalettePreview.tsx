@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SceneFrame, SceneEncoding } from '../types';
+import { loadFrame } from '../utils/frameStore';
+import { buildMedianCutPalette, quantizeFrame, resolvePalette } from '../utils/palette';
+import Loader from './Loader';
+
+interface PalettePreviewProps {
+    frames: SceneFrame[];
+    encoding: Pick<SceneEncoding, 'dither' | 'paletteMode' | 'brandPalette' | 'paletteSize'>;
+}
+
+const PREVIEW_MAX_DIMENSION = 240;
+const PALETTE_SAMPLE_FRAMES = 8; // Frames a shared palette is computed from for the preview
+
+const downscale = (frame: ImageData, maxDimension: number): ImageData => {
+    const scale = Math.min(1, maxDimension / Math.max(frame.width, frame.height));
+    if (scale === 1) return frame;
+    const source = document.createElement('canvas');
+    source.width = frame.width;
+    source.height = frame.height;
+    source.getContext('2d')!.putImageData(frame, 0, 0);
+    const target = document.createElement('canvas');
+    target.width = Math.max(1, Math.round(frame.width * scale));
+    target.height = Math.max(1, Math.round(frame.height * scale));
+    const ctx = target.getContext('2d', { willReadFrequently: true })!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, target.width, target.height);
+    return ctx.getImageData(0, 0, target.width, target.height);
+};
+
+/**
+ * Shows the middle frame of a scene next to how it looks with the chosen palette and dithering.
+ */
+const PalettePreview: React.FC<PalettePreviewProps> = ({ frames, encoding }) => {
+    const [samples, setSamples] = useState<ImageData[] | null>(null);
+    const [palette, setPalette] = useState<number[]>([]);
+    const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+    const quantizedCanvasRef = useRef<HTMLCanvasElement>(null);
+
+    // The middle frame comes first; the rest are spread over the scene for a shared palette.
+    useEffect(() => {
+        let cancelled = false;
+        const middle = Math.floor(frames.length / 2);
+        const step = Math.max(1, Math.floor(frames.length / PALETTE_SAMPLE_FRAMES));
+        const indices = [middle, ...frames.map((_, i) => i).filter(i => i % step === 0 && i !== middle).slice(0, PALETTE_SAMPLE_FRAMES - 1)];
+        Promise.all(indices.map(i => loadFrame(frames[i].frame)))
+            .then(loaded => {
+                if (!cancelled) setSamples(loaded.map(frame => downscale(frame, PREVIEW_MAX_DIMENSION)));
+            })
+            .catch(err => console.error("Failed to load the palette preview frames:", err));
+        return () => { cancelled = true; };
+    }, [frames]);
+
+    useEffect(() => {
+        if (!samples || samples.length === 0) return;
+        const [preview] = samples;
+        // In per-frame mode each frame builds its own 256 colours, so the preview frame does too.
+        const nextPalette = resolvePalette(samples, encoding, encoding.paletteSize) ?? buildMedianCutPalette([preview], 256);
+        setPalette(nextPalette);
+
+        const draw = (canvas: HTMLCanvasElement | null, data: ImageData) => {
+            if (!canvas) return;
+            canvas.width = data.width;
+            canvas.height = data.height;
+            canvas.getContext('2d')?.putImageData(data, 0, 0);
+        };
+        draw(originalCanvasRef.current, preview);
+        draw(quantizedCanvasRef.current, quantizeFrame(preview, nextPalette, encoding.dither));
+    }, [samples, encoding.dither, encoding.paletteMode, encoding.brandPalette, encoding.paletteSize]);
+
+    if (!samples) {
+        return (
+            <div className="flex items-center justify-center gap-2 h-24 text-sm text-gray-400">
+                <Loader size="xs" />
+                Loading preview...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+                <figure>
+                    <canvas ref={originalCanvasRef} className="w-full rounded bg-black" />
+                    <figcaption className="text-xs text-gray-400 mt-1 text-center">Original</figcaption>
+                </figure>
+                <figure>
+                    <canvas ref={quantizedCanvasRef} className="w-full rounded bg-black" />
+                    <figcaption className="text-xs text-gray-400 mt-1 text-center">{palette.length / 3} colours</figcaption>
+                </figure>
+            </div>
+            <div className="flex flex-wrap gap-px" aria-label="Palette colours">
+                {Array.from({ length: palette.length / 3 }, (_, i) => (
+                    <span
+                        key={i}
+                        className="w-2.5 h-2.5"
+                        style={{ backgroundColor: `rgb(${palette[i * 3]}, ${palette[i * 3 + 1]}, ${palette[i * 3 + 2]})` }}
+                    />
+                ))}
+            </div>
+            {encoding.paletteMode === 'frame' && encoding.paletteSize === 256 && (
+                <p className="text-xs text-gray-400">Per-frame palettes are picked by the encoder itself, so this is a close approximation.</p>
+            )}
+        </div>
+    );
+};
+
+export default PalettePreview;
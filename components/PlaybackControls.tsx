@@ -0,0 +1,72 @@
+import React from 'react';
+import type { PlaybackDirection, PlaybackSettings } from '../types';
+import { ArrowRight, ArrowLeft, ArrowLeftRight } from 'lucide-react';
+import { LOOP_COUNT_OPTIONS, SPEED_OPTIONS } from '../utils/playback';
+
+interface PlaybackControlsProps {
+    value: PlaybackSettings;
+    onChange: (playback: PlaybackSettings) => void;
+    loopLabel?: string;     // What the loop count means here, e.g. 'Plays' or 'Repeat'
+    allowForever?: boolean; // Offer looping forever; clips inside a combination can't
+    disabled?: boolean;
+}
+
+const DIRECTIONS: { value: PlaybackDirection; label: string; Icon: typeof ArrowRight }[] = [
+    { value: 'forward', label: 'Forward', Icon: ArrowRight },
+    { value: 'reverse', label: 'Reverse', Icon: ArrowLeft },
+    { value: 'pingpong', label: 'Ping-pong', Icon: ArrowLeftRight },
+];
+
+const selectClassName = 'bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-[11px] text-gray-200 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50';
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ value, onChange, loopLabel = 'Plays', allowForever = true, disabled = false }) => {
+    const loopOptions = LOOP_COUNT_OPTIONS.filter(option => allowForever || option.value > 0);
+
+    return (
+        <div className="flex items-center gap-1.5" onClick={e => e.stopPropagation()}>
+            <div className="flex rounded overflow-hidden border border-gray-600" role="radiogroup" aria-label="Direction">
+                {DIRECTIONS.map(({ value: direction, label, Icon }) => (
+                    <button
+                        key={direction}
+                        onClick={() => onChange({ ...value, direction })}
+                        disabled={disabled}
+                        role="radio"
+                        aria-checked={value.direction === direction}
+                        aria-label={label}
+                        title={label}
+                        className={`p-1 transition-colors disabled:opacity-50 ${value.direction === direction ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                    >
+                        <Icon size={12} />
+                    </button>
+                ))}
+            </div>
+            <select
+                value={value.speed}
+                onChange={e => onChange({ ...value, speed: Number(e.target.value) })}
+                disabled={disabled}
+                aria-label="Speed"
+                title="Speed"
+                className={selectClassName}
+            >
+                {SPEED_OPTIONS.map(speed => (
+                    <option key={speed} value={speed}>{speed}×</option>
+                ))}
+            </select>
+            <label className="flex items-center gap-1 text-[11px] text-gray-400">
+                {loopLabel}
+                <select
+                    value={allowForever ? value.loopCount : Math.max(1, value.loopCount)}
+                    onChange={e => onChange({ ...value, loopCount: Number(e.target.value) })}
+                    disabled={disabled}
+                    className={selectClassName}
+                >
+                    {loopOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+        </div>
+    );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SplitSettings, TimeRange } from '../types';
+import { Scissors, Play, Pause, Settings, AlertTriangle } from 'lucide-react';
+import { getCropLayout } from '../utils/reframe';
+import { estimateFrameBytes, getFrameStoreUsage } from '../utils/frameStore';
+
+interface RangePickerProps {
+    videoFile: File;
+    initialStart: number | null;
+    settings: SplitSettings;
+    onConfirm: (range: TimeRange) => void;
+    onOpenSettings: () => void;
+}
+
+// The shortest range that can be processed, in seconds.
+const MIN_RANGE_DURATION = 0.5;
+
+const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const RangePicker: React.FC<RangePickerProps> = ({ videoFile, initialStart, settings, onConfirm, onOpenSettings }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [duration, setDuration] = useState(0);
+    const [videoSize, setVideoSize] = useState<{ width: number, height: number } | null>(null);
+    const [start, setStart] = useState(0);
+    const [end, setEnd] = useState(0);
+    const [playhead, setPlayhead] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(videoFile);
+        setVideoUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [videoFile]);
+
+    const seek = (time: number) => {
+        setPlayhead(time);
+        if (videoRef.current) videoRef.current.currentTime = time;
+    };
+
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video || !isFinite(video.duration)) return;
+        const initial = Math.min(Math.max(0, initialStart ?? 0), Math.max(0, video.duration - MIN_RANGE_DURATION));
+        setDuration(video.duration);
+        setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+        setStart(initial);
+        setEnd(video.duration);
+        seek(initial);
+    };
+
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        setPlayhead(video.currentTime);
+        // Previewing stops at the out point.
+        if (!video.paused && video.currentTime >= end) {
+            video.pause();
+            video.currentTime = end;
+        }
+    };
+
+    const handleStartChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const newStart = Math.min(parseFloat(e.target.value), end - MIN_RANGE_DURATION);
+        setStart(Math.max(0, newStart));
+        seek(Math.max(0, newStart));
+    };
+
+    const handleEndChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const newEnd = Math.max(parseFloat(e.target.value), start + MIN_RANGE_DURATION);
+        setEnd(Math.min(duration, newEnd));
+        seek(Math.min(duration, newEnd));
+    };
+
+    const setStartAtPlayhead = () => setStart(Math.max(0, Math.min(playhead, end - MIN_RANGE_DURATION)));
+    const setEndAtPlayhead = () => setEnd(Math.min(duration, Math.max(playhead, start + MIN_RANGE_DURATION)));
+
+    const togglePreview = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (!video.paused) {
+            video.pause();
+            return;
+        }
+        if (video.currentTime < start || video.currentTime >= end) video.currentTime = start;
+        video.play().catch(e => console.error("Could not play the preview:", e));
+    };
+
+    const selectionLeft = duration > 0 ? (start / duration) * 100 : 0;
+    const selectionWidth = duration > 0 ? ((end - start) / duration) * 100 : 0;
+    const { frameRate } = settings;
+    const step = 1 / frameRate;
+    const isReady = duration > 0;
+    const frameCount = Math.floor((end - start) * frameRate);
+
+    // Frames beyond the budget still work, but are compressed or moved to disk, which slows processing down.
+    const layout = videoSize ? getCropLayout(videoSize.width, videoSize.height, settings) : null;
+    const estimatedBytes = layout ? estimateFrameBytes(frameCount, layout.width, layout.height) : 0;
+    const usage = getFrameStoreUsage();
+    const exceedsBudget = usage.memoryBytes + estimatedBytes > usage.budgetBytes;
+
+    return (
+        <div className="max-w-3xl mx-auto bg-gray-800/60 border border-gray-700 rounded-lg p-6 flex flex-col gap-5">
+            <div className="flex items-center gap-3">
+                <Scissors size={22} className="text-indigo-400" />
+                <h2 className="text-2xl font-bold text-gray-200">Choose the Part to Convert</h2>
+            </div>
+
+            <div className="bg-black rounded-md overflow-hidden flex justify-center">
+                {videoUrl && (
+                    <video
+                        ref={videoRef}
+                        src={videoUrl}
+                        className="max-h-[50vh] w-auto"
+                        muted
+                        playsInline
+                        preload="auto"
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onTimeUpdate={handleTimeUpdate}
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
+                    />
+                )}
+            </div>
+
+            <div className="flex flex-col gap-3">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={togglePreview}
+                        disabled={!isReady}
+                        className="p-2 bg-gray-700 text-white rounded-full hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                        aria-label={isPlaying ? 'Pause preview' : 'Play selected range'}
+                    >
+                        {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                    </button>
+                    <div className="relative flex-grow h-6 flex items-center">
+                        <div className="absolute inset-x-0 h-1.5 bg-gray-700 rounded-full"></div>
+                        <div className="absolute h-1.5 bg-indigo-500 rounded-full" style={{ left: `${selectionLeft}%`, width: `${selectionWidth}%` }}></div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={duration}
+                            step={step}
+                            value={playhead}
+                            onChange={(e) => seek(parseFloat(e.target.value))}
+                            disabled={!isReady}
+                            className="relative w-full appearance-none bg-transparent cursor-pointer"
+                            aria-label="Preview position"
+                        />
+                    </div>
+                    <span className="text-xs text-gray-400 font-mono w-14 text-right">{formatTime(playhead)}</span>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label htmlFor="range-start" className="text-sm text-gray-400">In: <span className="font-mono text-gray-200">{formatTime(start)}</span></label>
+                            <button onClick={setStartAtPlayhead} disabled={!isReady} className="text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50">Set at playhead</button>
+                        </div>
+                        <input id="range-start" type="range" min={0} max={duration} step={step} value={start} onChange={handleStartChange} disabled={!isReady} className="w-full" />
+                    </div>
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label htmlFor="range-end" className="text-sm text-gray-400">Out: <span className="font-mono text-gray-200">{formatTime(end)}</span></label>
+                            <button onClick={setEndAtPlayhead} disabled={!isReady} className="text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50">Set at playhead</button>
+                        </div>
+                        <input id="range-end" type="range" min={0} max={duration} step={step} value={end} onChange={handleEndChange} disabled={!isReady} className="w-full" />
+                    </div>
+                </div>
+
+                <p className="text-sm text-gray-400">
+                    Selected {formatTime(end - start)} of {formatTime(duration)} · about {frameCount} frames at {frameRate} FPS
+                    {layout && ` · ${formatMegabytes(estimatedBytes)} of frames`}
+                </p>
+                {exceedsBudget && (
+                    <div className="flex items-start gap-2 p-3 bg-amber-900/40 border border-amber-700 rounded-md text-sm text-amber-200">
+                        <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                        <p>
+                            This range needs about {formatMegabytes(estimatedBytes)} of frames, more than the {formatMegabytes(usage.budgetBytes - usage.memoryBytes)} left in the memory budget.
+                            {' '}Extra frames will be compressed or moved to disk, which makes splitting and combining slower. Choose a shorter range or a lower resolution or frame rate to avoid this.
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-3">
+                <button onClick={onOpenSettings} className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 transition-all">
+                    <Settings size={18} />
+                    Optimization Settings
+                </button>
+                <button onClick={() => onConfirm({ start: 0, end: duration })} disabled={!isReady} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
+                    Use Whole Video
+                </button>
+                <button onClick={() => onConfirm({ start, end })} disabled={!isReady} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all">
+                    <Scissors size={18} />
+                    Generate GIFs from Range
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RangePicker;
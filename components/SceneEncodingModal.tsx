@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import type { GifScene, SceneEncoding } from '../types';
+import { X, Check, SlidersHorizontal } from 'lucide-react';
+import { TARGET_SIZE_OPTIONS } from '../utils/sceneEncoding';
+import { DITHER_OPTIONS } from '../utils/palette';
+import { LOSSY_TOLERANCE_OPTIONS } from '../utils/gifOptimizer';
+import BrandPaletteEditor from './BrandPaletteEditor';
+import PalettePreview from './PalettePreview';
+
+interface SceneEncodingModalProps {
+    scene: GifScene | null;
+    onClose: () => void;
+    onApply: (id: string, encoding: SceneEncoding) => void;
+}
+
+const RESOLUTION_OPTIONS = [960, 854, 640, 480, 320, 240];
+const FRAME_STEP_OPTIONS = [1, 2, 3, 4];
+const PALETTE_SIZE_OPTIONS = [256, 128, 64, 32, 16];
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const SceneEncodingModal: React.FC<SceneEncodingModalProps> = ({ scene, onClose, onApply }) => {
+    const [tempEncoding, setTempEncoding] = useState<SceneEncoding | null>(scene?.encoding ?? null);
+
+    useEffect(() => {
+        setTempEncoding(scene?.encoding ?? null);
+    }, [scene]);
+
+    if (!scene || !tempEncoding) return null;
+
+    const { width, height } = scene.frames[0].frame;
+    const largerDim = Math.max(width, height);
+    const sourceFps = scene.frames[0].delay > 0 ? 1000 / scene.frames[0].delay : 0;
+
+    const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        const isText = name === 'dither' || name === 'paletteMode' || value === 'original';
+        setTempEncoding(prev => prev && ({
+            ...prev,
+            [name]: isText ? value : Number(value)
+        }));
+    };
+
+    const handleApply = () => {
+        onApply(scene.id, tempEncoding);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex items-center justify-center p-4 backdrop-blur-sm" aria-modal="true" role="dialog">
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
+                <div className="flex items-center gap-3 mb-2">
+                    <SlidersHorizontal size={20} className="text-indigo-400" />
+                    <h2 className="text-xl font-bold text-gray-100 truncate">Re-encode "{scene.name}"</h2>
+                </div>
+                <p className="text-gray-400 mb-6 text-sm">
+                    Rebuilds only this GIF from its {scene.frames.length} stored frames ({width}×{height}). The video isn't split again.
+                    {' '}Current file: <span className="text-gray-200">{formatBytes(scene.encodeReport.size)}</span>
+                    {scene.encodeReport.unoptimizedSize > scene.encodeReport.size && ` (${formatBytes(scene.encodeReport.unoptimizedSize)} before frame optimization)`}.
+                </p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="scene-resolution" className="block text-sm font-medium text-gray-300 mb-1">Resolution (Max Dimension)</label>
+                        <select name="resolution" id="scene-resolution" value={tempEncoding.resolution} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            <option value="original">As Split ({largerDim}px)</option>
+                            {RESOLUTION_OPTIONS.filter(option => option < largerDim).map(option => (
+                                <option key={option} value={option}>{option}px</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="scene-frameStep" className="block text-sm font-medium text-gray-300 mb-1">Frame Rate</label>
+                        <select name="frameStep" id="scene-frameStep" value={tempEncoding.frameStep} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            {FRAME_STEP_OPTIONS.map(step => (
+                                <option key={step} value={step}>
+                                    {step === 1 ? 'Every Frame' : `Every ${step === 2 ? '2nd' : step === 3 ? '3rd' : `${step}th`} Frame`} ({Math.round((sourceFps / step) * 10) / 10} FPS)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="scene-quality" className="block text-sm font-medium text-gray-300 mb-1">Color Quality</label>
+                        <select name="quality" id="scene-quality" value={tempEncoding.quality} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            <option value={1}>Best (Slowest)</option>
+                            <option value={5}>High</option>
+                            <option value={10}>Good</option>
+                            <option value={20}>Optimized (Smallest File)</option>
+                        </select>
+                    </div>
+
+                    <div>
+                        <label htmlFor="scene-paletteMode" className="block text-sm font-medium text-gray-300 mb-1">Colour Palette</label>
+                        <select name="paletteMode" id="scene-paletteMode" value={tempEncoding.paletteMode} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            <option value="frame">Per Frame</option>
+                            <option value="global">Shared Across All Frames</option>
+                            <option value="brand">Brand Palette</option>
+                        </select>
+                    </div>
+                    {tempEncoding.paletteMode === 'brand' ? (
+                        <BrandPaletteEditor
+                            palette={tempEncoding.brandPalette}
+                            onChange={brandPalette => setTempEncoding(prev => prev && ({ ...prev, brandPalette }))}
+                        />
+                    ) : (
+                        <div>
+                            <label htmlFor="scene-paletteSize" className="block text-sm font-medium text-gray-300 mb-1">Colours</label>
+                            <select name="paletteSize" id="scene-paletteSize" value={tempEncoding.paletteSize} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                {PALETTE_SIZE_OPTIONS.map(size => (
+                                    <option key={size} value={size}>{size === 256 && tempEncoding.paletteMode === 'frame' ? '256 (Per Frame)' : `${size} (Shared)`}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="scene-dither" className="block text-sm font-medium text-gray-300 mb-1">Dithering</label>
+                        <select name="dither" id="scene-dither" value={tempEncoding.dither} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            {DITHER_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">Reduces banding but increases file size.</p>
+                    </div>
+                    <PalettePreview frames={scene.frames} encoding={tempEncoding} />
+                    <div className="bg-gray-700/50 p-3 rounded-lg space-y-3">
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="checkbox"
+                                id="scene-optimizeFrames"
+                                name="optimizeFrames"
+                                checked={tempEncoding.optimizeFrames}
+                                onChange={(e) => setTempEncoding(prev => prev && ({ ...prev, optimizeFrames: e.target.checked }))}
+                                className="w-4 h-4 text-indigo-600 bg-gray-700 border-gray-500 rounded focus:ring-indigo-500 focus:ring-offset-gray-800 cursor-pointer"
+                            />
+                            <div>
+                                <label htmlFor="scene-optimizeFrames" className="block text-sm font-medium text-white cursor-pointer">Optimize Frames</label>
+                                <p className="text-xs text-gray-400">Stores only what changes between frames.</p>
+                            </div>
+                        </div>
+                        {tempEncoding.optimizeFrames && (
+                            <div>
+                                <label htmlFor="scene-lossyTolerance" className="block text-sm font-medium text-gray-300 mb-1">Lossy Tolerance</label>
+                                <select name="lossyTolerance" id="scene-lossyTolerance" value={tempEncoding.lossyTolerance} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                                    {LOSSY_TOLERANCE_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="scene-targetSize" className="block text-sm font-medium text-gray-300 mb-1">Target File Size</label>
+                        <select name="targetSize" id="scene-targetSize" value={tempEncoding.targetSize} onChange={handleSelectChange} className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:ring-indigo-500 focus:border-indigo-500 transition-all">
+                            {TARGET_SIZE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">The settings above are the starting point; they are lowered until the GIF fits.</p>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-4 mt-6 pt-4 border-t border-gray-700">
+                    <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 transition-all">
+                        <X size={18} />
+                        Cancel
+                    </button>
+                    <button onClick={handleApply} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition-all">
+                        <Check size={18} />
+                        Re-encode
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SceneEncodingModal;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { GifScene } from '../types';
+import Loader from './Loader';
+import { Activity, Trash2 } from 'lucide-react';
+import { getSceneCuts } from '../utils/sceneCuts';
+
+interface SceneTimelineProps {
+    scores: number[];
+    scenes: GifScene[];
+    frameRate: number;
+    timeOffset: number; // Source time of frame 0, in seconds, when only part of the video was processed.
+    isUpdating: boolean;
+    onCutsChange: (cuts: number[]) => void;
+}
+
+const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const SceneTimeline: React.FC<SceneTimelineProps> = ({ scores, scenes, frameRate, timeOffset, isUpdating, onCutsChange }) => {
+    const committedCuts = useMemo(() => getSceneCuts(scenes), [scenes]);
+    const [cuts, setCuts] = useState<number[]>(committedCuts);
+    const [selectedCut, setSelectedCut] = useState<number | null>(null);
+    const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+    const trackRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setCuts(committedCuts);
+        setSelectedCut(null);
+    }, [committedCuts]);
+
+    const firstFrame = scenes.length > 0 ? Math.min(...scenes.map(s => s.startFrame)) : 0;
+    const lastFrame = scenes.length > 0 ? Math.max(...scenes.map(s => s.endFrame)) : 0;
+    const totalFrames = Math.max(scores.length, lastFrame, 1);
+
+    const curve = useMemo(() => scores.map((score, i) => `${i},${100 - Math.min(100, score)}`).join(' '), [scores]);
+
+    const frameTime = (frame: number) => formatTime(timeOffset + frame / frameRate);
+
+    const commit = (nextCuts: number[]) => {
+        const sorted = [...nextCuts].sort((a, b) => a - b);
+        setCuts(sorted);
+        if (sorted.join() !== committedCuts.join()) {
+            onCutsChange(sorted);
+        }
+    };
+
+    const frameFromClientX = (clientX: number): number => {
+        const rect = trackRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return 0;
+        return Math.round(((clientX - rect.left) / rect.width) * totalFrames);
+    };
+
+    const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (isUpdating) return;
+        const frame = frameFromClientX(e.clientX);
+        if (frame <= firstFrame || frame >= lastFrame || cuts.includes(frame)) {
+            setSelectedCut(null);
+            return;
+        }
+        commit([...cuts, frame]);
+        setSelectedCut(frame);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+        if (isUpdating) return;
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraggingIndex(index);
+        setSelectedCut(cuts[index]);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (draggingIndex === null) return;
+        // A cut can't move past its neighbours, so every scene keeps at least one frame.
+        const min = (draggingIndex > 0 ? cuts[draggingIndex - 1] : firstFrame) + 1;
+        const max = (draggingIndex < cuts.length - 1 ? cuts[draggingIndex + 1] : lastFrame) - 1;
+        const frame = Math.min(max, Math.max(min, frameFromClientX(e.clientX)));
+        setCuts(prev => prev.map((cut, i) => i === draggingIndex ? frame : cut));
+        setSelectedCut(frame);
+    };
+
+    const handlePointerUp = () => {
+        if (draggingIndex === null) return;
+        setDraggingIndex(null);
+        commit(cuts);
+    };
+
+    const deleteCut = (cut: number) => {
+        if (isUpdating) return;
+        commit(cuts.filter(c => c !== cut));
+        setSelectedCut(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selectedCut !== null) {
+            e.preventDefault();
+            deleteCut(selectedCut);
+        }
+    };
+
+    const boundaries = [firstFrame, ...cuts, lastFrame];
+
+    return (
+        <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-3">
+                    <Activity size={20} className="text-indigo-400" />
+                    <h3 className="font-semibold text-gray-200">Scene Timeline</h3>
+                    {isUpdating && <Loader size="xs" />}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <span>Click to add a cut, drag to move it, select it and press Delete to remove it.</span>
+                    {selectedCut !== null && (
+                        <button
+                            onClick={() => deleteCut(selectedCut)}
+                            disabled={isUpdating}
+                            className="flex items-center gap-1 px-2 py-1 bg-red-600/80 text-white rounded-md hover:bg-red-600 disabled:opacity-50 transition-colors"
+                        >
+                            <Trash2 size={12} />
+                            Delete cut @{frameTime(selectedCut)}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div
+                ref={trackRef}
+                className={`relative h-28 bg-gray-900 rounded-md overflow-hidden select-none outline-none focus:ring-2 focus:ring-indigo-500 ${isUpdating ? 'opacity-60 cursor-wait' : 'cursor-crosshair'}`}
+                onClick={handleTrackClick}
+                onKeyDown={handleKeyDown}
+                tabIndex={0}
+                role="group"
+                aria-label="Scene cut timeline"
+            >
+                <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${totalFrames} 100`} preserveAspectRatio="none">
+                    {boundaries.slice(0, -1).map((start, i) => (
+                        <rect key={start} x={start} y={0} width={boundaries[i + 1] - start} height={100} className={i % 2 === 0 ? 'fill-indigo-500/10' : 'fill-purple-500/10'} />
+                    ))}
+                    {lastFrame < totalFrames && (
+                        // Frames after the last scene were too short to become a GIF.
+                        <rect x={lastFrame} y={0} width={totalFrames - lastFrame} height={100} className="fill-gray-700/40" />
+                    )}
+                    <polyline points={curve} fill="none" className="stroke-indigo-300" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                </svg>
+
+                {cuts.map((cut, index) => (
+                    <div
+                        key={index}
+                        className="absolute top-0 bottom-0 -ml-2 w-4 flex justify-center cursor-ew-resize group"
+                        style={{ left: `${(cut / totalFrames) * 100}%` }}
+                        onPointerDown={(e) => handlePointerDown(e, index)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onClick={(e) => e.stopPropagation()}
+                        onDoubleClick={(e) => { e.stopPropagation(); deleteCut(cut); }}
+                        title={`Cut at frame ${cut} (${frameTime(cut)})`}
+                    >
+                        <div className={`w-0.5 h-full ${selectedCut === cut ? 'bg-yellow-300' : 'bg-yellow-500/70 group-hover:bg-yellow-300'}`}></div>
+                        <div className={`absolute top-1 w-3 h-3 rounded-full border-2 border-gray-900 ${selectedCut === cut ? 'bg-yellow-300' : 'bg-yellow-500'}`}></div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-between mt-2 text-xs text-gray-500 font-mono">
+                <span>{frameTime(0)}</span>
+                <span>{scenes.length} scenes · {cuts.length} cuts</span>
+                <span>{frameTime(totalFrames)}</span>
+            </div>
+        </div>
+    );
+};
+
+export default SceneTimeline;
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface TimelineTransitionsProps {
+    frames: { transition?: unknown }[]; // The combined frames the trim sliders run over
+}
+
+/**
+ * The track behind the trim sliders, with the frames that blend two clips highlighted so a trim can
+ * start or end inside a transition knowingly.
+ */
+const TimelineTransitions: React.FC<TimelineTransitionsProps> = ({ frames }) => {
+    const spans: { start: number; end: number }[] = [];
+    frames.forEach((frame, i) => {
+        if (!frame.transition) return;
+        const last = spans[spans.length - 1];
+        if (last && last.end === i - 1) last.end = i;
+        else spans.push({ start: i, end: i });
+    });
+    // Slider positions run from the first frame at 0% to the last at 100%.
+    const toPercent = (index: number) => Math.min(100, Math.max(0, (index / Math.max(1, frames.length - 1)) * 100));
+
+    return (
+        <div className="absolute inset-x-0 h-1.5 top-1/2 -translate-y-1/2 bg-gray-600 rounded-full overflow-hidden" aria-hidden="true">
+            {spans.map(span => (
+                <div
+                    key={span.start}
+                    className="absolute inset-y-0 bg-purple-400"
+                    style={{ left: `${toPercent(span.start - 0.5)}%`, right: `${100 - toPercent(span.end + 0.5)}%` }}
+                />
+            ))}
+        </div>
+    );
+};
+
+export default TimelineTransitions;
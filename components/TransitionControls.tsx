@@ -0,0 +1,50 @@
+import React from 'react';
+import type { Transition, TransitionType } from '../types';
+import { Blend } from 'lucide-react';
+import { TRANSITION_DURATION_OPTIONS, TRANSITION_TYPE_OPTIONS } from '../utils/transitions';
+
+interface TransitionControlsProps {
+    value: Transition;
+    onChange: (transition: Transition) => void;
+}
+
+const selectClassName = 'bg-gray-800 border border-gray-600 rounded py-0.5 px-1 text-[11px] text-gray-200 focus:ring-indigo-500 focus:border-indigo-500';
+
+const TransitionControls: React.FC<TransitionControlsProps> = ({ value, onChange }) => (
+    <div className="flex items-center gap-1.5 pl-9 text-[11px] text-gray-400">
+        <Blend size={12} className="text-indigo-400 flex-shrink-0" />
+        <select
+            value={value.type}
+            onChange={e => onChange({ ...value, type: e.target.value as TransitionType })}
+            aria-label="Transition"
+            className={selectClassName}
+        >
+            {TRANSITION_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+        </select>
+        {value.type !== 'cut' && (
+            <select
+                value={value.duration}
+                onChange={e => onChange({ ...value, duration: Number(e.target.value) })}
+                aria-label="Transition duration"
+                className={selectClassName}
+            >
+                {TRANSITION_DURATION_OPTIONS.map(duration => (
+                    <option key={duration} value={duration}>{(duration / 1000).toFixed(1)}s</option>
+                ))}
+            </select>
+        )}
+        {value.type === 'dip' && (
+            <input
+                type="color"
+                value={value.color}
+                onChange={e => onChange({ ...value, color: e.target.value })}
+                aria-label="Dip colour"
+                className="w-6 h-5 bg-gray-800 border border-gray-600 rounded cursor-pointer"
+            />
+        )}
+    </div>
+);
+
+export default TransitionControls;
@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { EncoderFrames, EncodingSettings, ExportSettings, OutputFormat } from '../types';
+import { getEncoder, getEncoders } from '../utils/encoders';
+
+/**
+ * Exports a combined animation in every output format from the frames the GIF is encoded from.
+ * The GIF is only encoded once it is exported itself, and the other formats are cached per frame list and
+ * settings, so measuring sizes and then downloading encodes each format once.
+ * @param gif The current combined GIF, or null until it has been encoded.
+ * @param encodeGif Encodes the current combined GIF, or returns it if it already is.
+ * @param frames The frames every format is encoded from. Pass a new object when the frames change.
+ * @param settings The user's encoding settings, applied to every format.
+ * @param exportSettings The user's export settings, such as how often video formats repeat the clip.
+ * @param loopCount Times the animation plays, 0 for forever. Video formats repeat the frames this often instead.
+ */
+export const useFormatExports = (
+    gif: Blob | null,
+    encodeGif: () => Promise<Blob>,
+    frames: EncoderFrames,
+    settings: EncodingSettings,
+    exportSettings: ExportSettings,
+    loopCount = 0
+) => {
+    const [sizes, setSizes] = useState<Partial<Record<OutputFormat, number>>>({});
+    const [isExporting, setIsExporting] = useState(false);
+    const cacheRef = useRef(new WeakMap<EncoderFrames, Map<string, Promise<Blob>>>());
+    const encodeGifRef = useRef(encodeGif);
+    const framesRef = useRef(frames);
+    const settingsRef = useRef(settings);
+    encodeGifRef.current = encodeGif;
+    framesRef.current = frames;
+    settingsRef.current = settings;
+
+    useEffect(() => {
+        setSizes({});
+    }, [frames, settings, exportSettings, loopCount]);
+
+    useEffect(() => {
+        if (gif) setSizes(prev => ({ ...prev, gif: gif.size }));
+    }, [gif]);
+
+    const exportAs = useCallback(async (format: OutputFormat): Promise<Blob> => {
+        // The frames or settings may have changed while this format was encoding.
+        const isCurrent = () => framesRef.current === frames && settingsRef.current === settings;
+        if (format === 'gif') {
+            const blob = await encodeGifRef.current();
+            if (isCurrent()) setSizes(prev => ({ ...prev, gif: blob.size }));
+            return blob;
+        }
+
+        const exports = cacheRef.current.get(frames) ?? new Map<string, Promise<Blob>>();
+        cacheRef.current.set(frames, exports);
+        const encoder = getEncoder(format);
+        const loops = encoder.isVideo ? loopCount || exportSettings.videoLoops : 1;
+        const key = `${format}:${settings.quality}:${settings.dither}:${loops}`;
+        const cached = exports.get(key);
+        if (cached) return cached;
+
+        const exported = encoder.encode(frames, { quality: settings.quality, dither: settings.dither, loopCount, loops });
+        exports.set(key, exported);
+        exported.then(
+            blob => {
+                if (isCurrent()) setSizes(prev => ({ ...prev, [format]: blob.size }));
+            },
+            () => exports.delete(key)
+        );
+        return exported;
+    }, [frames, settings, exportSettings, loopCount]);
+
+    const run = useCallback(async <T>(action: () => Promise<T>): Promise<T> => {
+        setIsExporting(true);
+        try {
+            return await action();
+        } finally {
+            setIsExporting(false);
+        }
+    }, []);
+
+    // One format at a time, so only one encoder is loading frames at once.
+    const measure = useCallback(() => run(async () => {
+        for (const { format } of getEncoders()) {
+            await exportAs(format);
+        }
+    }), [run, exportAs]);
+    const download = useCallback((format: OutputFormat) => run(() => exportAs(format)), [run, exportAs]);
+
+    return { sizes, isExporting, measure, download };
+};
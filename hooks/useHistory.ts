@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface HistoryCommand {
+    label: string;
+    undo: () => void;
+    redo: () => void;
+    mergeKey?: string; // Commands with the same key in quick succession, such as dragging a slider, undo as one
+}
+
+export interface HistoryEntry extends HistoryCommand {
+    id: number;
+    time: number;
+}
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1000;
+
+// Text fields keep the browser's own undo.
+const isTextInput = (target: EventTarget | null) =>
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable) ||
+    (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'color', 'button'].includes(target.type));
+
+/**
+ * An undoable history of commands. Executing a command runs its redo and drops anything that was undone.
+ * @param shortcuts Whether Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) undo and redo; only one history should
+ * listen at a time.
+ */
+export const useHistory = (shortcuts = true) => {
+    const entriesRef = useRef<HistoryEntry[]>([]);
+    const positionRef = useRef(0); // Entries before this have been done
+    const nextIdRef = useRef(1);
+    const [, setVersion] = useState(0);
+    const update = () => setVersion(version => version + 1);
+
+    const execute = useCallback((command: HistoryCommand) => {
+        command.redo();
+        const entries = entriesRef.current.slice(0, positionRef.current);
+        const last = entries[entries.length - 1];
+        const now = Date.now();
+        if (command.mergeKey && last?.mergeKey === command.mergeKey && now - last.time < MERGE_WINDOW_MS) {
+            // The merged entry still undoes back to before the first command.
+            entries[entries.length - 1] = { ...command, undo: last.undo, id: last.id, time: now };
+        } else {
+            entries.push({ ...command, id: nextIdRef.current++, time: now });
+        }
+        entriesRef.current = entries.slice(-MAX_ENTRIES);
+        positionRef.current = entriesRef.current.length;
+        update();
+    }, []);
+
+    const undo = useCallback(() => {
+        if (positionRef.current === 0) return;
+        positionRef.current--;
+        entriesRef.current[positionRef.current].undo();
+        update();
+    }, []);
+
+    const redo = useCallback(() => {
+        if (positionRef.current >= entriesRef.current.length) return;
+        entriesRef.current[positionRef.current].redo();
+        positionRef.current++;
+        update();
+    }, []);
+
+    // Undoes or redoes until the given number of entries have been done.
+    const goTo = useCallback((position: number) => {
+        while (positionRef.current > position) undo();
+        while (positionRef.current < position && positionRef.current < entriesRef.current.length) redo();
+    }, [undo, redo]);
+
+    const clear = useCallback(() => {
+        entriesRef.current = [];
+        positionRef.current = 0;
+        update();
+    }, []);
+
+    useEffect(() => {
+        if (!shortcuts) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [shortcuts, undo, redo]);
+
+    return {
+        entries: entriesRef.current,
+        position: positionRef.current,
+        canUndo: positionRef.current > 0,
+        canRedo: positionRef.current < entriesRef.current.length,
+        execute,
+        undo,
+        redo,
+        goTo,
+        clear,
+    };
+};
@@ -1,229 +1,249 @@
-
 import { useState, useEffect, useRef } from 'react';
-import type { GifScene, OptimizationSettings } from '../types';
-
-// This is a workaround for gif.js being loaded from a CDN.
-declare const GIF: any;
+import type { GifScene, SceneFrame, SplitSettings, EncodingSettings, TimeRange } from '../types';
+import { loadVideo, releaseVideo, readVideoFrames, getFrameCount, type DecodeStats } from '../utils/frameSource';
+import { encodeSceneFrames, getDefaultSceneEncoding } from '../utils/sceneEncoding';
+import { createSourceMoment } from '../utils/sourceMoment';
+import { getCropLayout } from '../utils/reframe';
+import { putFrame, releaseFrames } from '../utils/frameStore';
+import type { SplitterRequest, SplitterResponse } from '../workers/sceneSplitter.worker';
 
 // New constants for intelligent scene detection
 const COMPARISON_CANVAS_WIDTH = 48; // Use a small canvas for fast frame comparison
-const DIFFERENCE_THRESHOLD = 15;    // % difference threshold to detect a scene change. Tuned for sensitivity.
-const MIN_SCENE_FRAMES = 10;        // A scene must have at least 10 frames (~1 sec at 10fps) to become a GIF.
-
-/**
- * This function compares two low-res frames by converting them to grayscale
- * and calculating the average pixel difference. It's fast and effective.
- * @param data1 Pixel data of the first frame.
- * @param data2 Pixel data of the second frame.
- * @returns The difference as a percentage.
- */
-const calculateFrameDifference = (data1: Uint8ClampedArray, data2: Uint8ClampedArray): number => {
-    let diff = 0;
-    // Simple grayscale conversion for performance. We only need to compare luminance.
-    for (let i = 0; i < data1.length; i += 4) {
-        const gray1 = 0.299 * data1[i] + 0.587 * data1[i + 1] + 0.114 * data1[i + 2];
-        const gray2 = 0.299 * data2[i] + 0.587 * data2[i + 1] + 0.114 * data2[i + 2];
-        diff += Math.abs(gray1 - gray2);
-    }
-    // Return the difference as a percentage of the max possible difference.
-    return (diff / (255 * (data1.length / 4))) * 100;
+const MAX_FRAMES_IN_FLIGHT = 8;     // Frames sent to the splitter but not yet processed. Bounds bitmap memory.
+
+// Frees the URLs and stored frames of a previous run's scenes.
+const releaseScenes = (oldScenes: GifScene[]): GifScene[] => {
+    if (oldScenes.length === 0) return oldScenes;
+    oldScenes.forEach(s => {
+        URL.revokeObjectURL(s.dataUrl);
+        releaseFrames(s.frames);
+    });
+    return [];
 };
 
 
-export const useVideoProcessor = (videoFile: File | null, workerScriptUrl: string | null, settings: OptimizationSettings, baseName: string | null) => {
+/**
+ * Splits the chosen range of a video into scenes and encodes each scene as a GIF.
+ * Processing starts once both a video and a range are set. Frame indices (and scene start/end frames)
+ * count from the start of the range. `sourceUrl` is the link the video was fetched from, if any; it is
+ * recorded on each scene along with the scene's place in the source.
+ * Only `splitSettings` restart processing; `encodingSettings` are read when a scene is encoded, so
+ * changing them never re-splits the video.
+ */
+export const useVideoProcessor = (
+    videoFile: File | null,
+    splitSettings: SplitSettings,
+    encodingSettings: EncodingSettings,
+    baseName: string | null,
+    range: TimeRange | null,
+    sourceUrl: string | null
+) => {
     const [processedScenes, setProcessedScenes] = useState<GifScene[]>([]);
     const [isProcessing, setIsProcessing] = useState(false);
     const [progress, setProgress] = useState(0);
     const [error, setError] = useState<string | null>(null);
-    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const [decodeStats, setDecodeStats] = useState<DecodeStats | null>(null);
+    // Per-frame difference scores (0-100) from the scene detector, for plotting the cut timeline.
+    const [frameScores, setFrameScores] = useState<number[]>([]);
+    const encodingSettingsRef = useRef(encodingSettings);
+    encodingSettingsRef.current = encodingSettings;
 
     useEffect(() => {
-        if (!videoFile || !workerScriptUrl) return;
+        if (!videoFile || !range) {
+            // The video or its range was cleared, so the previous run's scenes are no longer shown.
+            setProcessedScenes(releaseScenes);
+            return;
+        }
 
         const abortController = new AbortController();
+        const { signal } = abortController;
+        let video: HTMLVideoElement | null = null;
+        let splitter: Worker | null = null;
 
         const processVideo = async () => {
             setIsProcessing(true);
             setError(null);
-            // Clean up URLs from previous runs to prevent memory leaks
-            setProcessedScenes(oldScenes => {
-                oldScenes.forEach(s => URL.revokeObjectURL(s.dataUrl));
-                return [];
-            });
+            // Clean up URLs and frames from previous runs to prevent memory leaks
+            setProcessedScenes(releaseScenes);
             setProgress(0);
+            setDecodeStats(null);
+            setFrameScores([]);
 
-            const video = document.createElement('video');
-            videoRef.current = video;
-            video.src = URL.createObjectURL(videoFile);
-            video.muted = true;
-
-            const highResCanvas = document.createElement('canvas');
-            const highResCtx = highResCanvas.getContext('2d');
-            
-            const comparisonCanvas = document.createElement('canvas');
-            // 'willReadFrequently' is a performance hint for the browser
-            const comparisonCtx = comparisonCanvas.getContext('2d', { willReadFrequently: true });
-
+            try {
+                video = await loadVideo(videoFile);
+                if (signal.aborted) return;
 
-            video.onloadedmetadata = async () => {
-                try {
-                    if (abortController.signal.aborted || !highResCtx || !comparisonCtx) return;
+                const { videoWidth, videoHeight } = video;
+                const { frameRate, sceneSensitivity, minSceneDuration, maxSceneDuration, sceneDetection, reframe } = splitSettings;
 
-                    let { videoWidth, videoHeight } = video;
-                    const { resolution, frameRate, quality, dither } = settings;
+                // A scene must have at least this many frames to become a GIF.
+                const minSceneFrames = Math.max(1, Math.round(minSceneDuration * frameRate));
+                // Scenes reaching this many frames are cut even without a visual change.
+                const maxSceneFrames = maxSceneDuration > 0 ? Math.max(minSceneFrames, Math.round(maxSceneDuration * frameRate)) : Infinity;
 
-                    if (resolution !== 'original') {
-                        const largerDim = Math.max(videoWidth, videoHeight);
-                        if (largerDim > resolution) {
-                            const scale = resolution / largerDim;
-                            videoWidth = Math.floor(videoWidth * scale);
-                            videoHeight = Math.floor(videoHeight * scale);
-                        }
-                    }
-
-                    if (!videoWidth || !videoHeight || !isFinite(videoWidth) || !isFinite(videoHeight)) {
-                        setError("Could not determine video dimensions. The file may be invalid.");
-                        setIsProcessing(false);
-                        return;
-                    }
-                    
-                    highResCanvas.width = videoWidth;
-                    highResCanvas.height = videoHeight;
-                    
-                    // Enable high-quality image smoothing
-                    highResCtx.imageSmoothingEnabled = true;
-                    highResCtx.imageSmoothingQuality = 'high';
-                    
-                    // Set comparison canvas dimensions while maintaining aspect ratio
-                    const comparisonHeight = Math.round(COMPARISON_CANVAS_WIDTH * (videoHeight / videoWidth));
-                    comparisonCanvas.width = COMPARISON_CANVAS_WIDTH;
-                    comparisonCanvas.height = comparisonHeight;
-
-                    const gifSettings = {
-                        workers: 2,
-                        quality: quality,
-                        dither: dither ? "FloydSteinberg" : false,
-                        workerScript: workerScriptUrl,
-                        width: videoWidth,
-                        height: videoHeight
-                    };
+                if (!videoWidth || !videoHeight || !isFinite(videoWidth) || !isFinite(videoHeight)) {
+                    setError("Could not determine video dimensions. The file may be invalid.");
+                    return;
+                }
 
-                    const createGifFromFrames = async (frames: { data: ImageData, delay: number }[], sceneId: number): Promise<GifScene | null> => {
-                        if (frames.length === 0) return null;
-                        
-                        const gif = new GIF(gifSettings);
-                        frames.forEach(frame => gif.addFrame(frame.data, { delay: frame.delay }));
-                        
-                        return new Promise((resolve, reject) => {
-                           const renderTimeout = setTimeout(() => reject(new Error(`GIF rendering timed out for Scene ${sceneId}`)), 20000);
-                           gif.on('finished', (finishedBlob: Blob) => {
-                               clearTimeout(renderTimeout);
-                               const dataUrl = URL.createObjectURL(finishedBlob);
-                               resolve({
-                                   id: `${sceneId}`,
-                                   dataUrl: dataUrl,
-                                   frames: frames,
-                                   isSelected: false, 
-                                   name: baseName ? `${baseName} ${sceneId}` : `Scene ${sceneId}`
-                               });
-                           });
-                           gif.render();
-                        });
+                // Frames are scaled on the way to the splitter, which crops them to the chosen aspect ratio.
+                const layout = getCropLayout(videoWidth, videoHeight, splitSettings);
+
+                const source = { name: sourceUrl ?? videoFile.name, url: sourceUrl };
+                const createGifFromFrames = async (frames: SceneFrame[], sceneId: number, startFrame: number): Promise<GifScene | null> => {
+                    if (frames.length === 0) return null;
+
+                    const encoding = getDefaultSceneEncoding(encodingSettingsRef.current);
+                    const { blob, report } = await encodeSceneFrames(frames, encoding, signal);
+                    return {
+                        id: `${sceneId}`,
+                        dataUrl: URL.createObjectURL(blob),
+                        frames: frames,
+                        isSelected: false,
+                        name: baseName ? `${baseName} ${sceneId}` : `Scene ${sceneId}`,
+                        startFrame,
+                        endFrame: startFrame + frames.length,
+                        source: createSourceMoment(source, range.start, frameRate, startFrame, startFrame + frames.length),
+                        encoding,
+                        encodeReport: report,
                     };
-
-                    let lastFrameData: Uint8ClampedArray | null = null;
-                    let currentSceneFrames: { data: ImageData, delay: number }[] = [];
-                    const scenes: GifScene[] = [];
-                    let sceneCount = 0;
-                    
-                    const totalFramesToProcess = Math.floor(video.duration * frameRate);
-
-                    for (let i = 0; i < totalFramesToProcess; i++) {
-                        if (abortController.signal.aborted) return;
-                        
-                        const time = i / frameRate;
-                        
-                        await new Promise<void>((resolve, reject) => {
-                            const seekTimeout = setTimeout(() => reject(new Error(`Video seek timed out at ${time.toFixed(2)}s`)), 5000);
-                            const onSeeked = () => {
-                                video.removeEventListener('seeked', onSeeked);
-                                clearTimeout(seekTimeout);
-                                resolve();
-                            };
-                            video.addEventListener('seeked', onSeeked);
-                            video.currentTime = time;
-                        });
-
-                        // Capture high-res frame for the GIF
-                        highResCtx.drawImage(video, 0, 0, highResCanvas.width, highResCanvas.height);
-                        const highResFrameData = highResCtx.getImageData(0, 0, highResCanvas.width, highResCanvas.height);
-
-                        // Capture low-res frame for scene detection
-                        comparisonCtx.drawImage(video, 0, 0, comparisonCanvas.width, comparisonCanvas.height);
-                        const currentFrameData = comparisonCtx.getImageData(0, 0, comparisonCanvas.width, comparisonCanvas.height).data;
-                        
-                        let isSceneCut = false;
-                        if (lastFrameData) {
-                            const difference = calculateFrameDifference(currentFrameData, lastFrameData);
-                            if (difference > DIFFERENCE_THRESHOLD) {
-                                isSceneCut = true;
+                };
+
+                const scenes: GifScene[] = [];
+                let sceneCount = 0;
+                // Scenes are encoded one after another while the splitter keeps working on the next ones.
+                // The queue never rejects, so every queued scene still releases its frames; the first real
+                // encode failure is kept and rethrown once the queue has drained.
+                let encodeQueue: Promise<void> = Promise.resolve();
+                let encodeError: unknown = null;
+                const frameOptions = { frameRate, startTime: range.start, endTime: range.end };
+                const totalFramesToProcess = getFrameCount(video.duration, frameOptions);
+                let postedFrames = 0;
+                let processedFrames = 0;
+                const scores: number[] = [];
+                let releaseBackpressure: (() => void) | null = null;
+                signal.addEventListener('abort', () => releaseBackpressure?.());
+
+                const activeSplitter = new Worker(new URL('../workers/sceneSplitter.worker.ts', import.meta.url), { type: 'module' });
+                splitter = activeSplitter;
+                const splitDone = new Promise<void>((resolve, reject) => {
+                    activeSplitter.onmessage = (event: MessageEvent<SplitterResponse>) => {
+                        const message = event.data;
+                        switch (message.type) {
+                            case 'progress': {
+                                const previousPercent = Math.floor((processedFrames / totalFramesToProcess) * 100);
+                                processedFrames = message.processedFrames;
+                                scores.push(message.score);
+                                // Only re-render when the visible percentage changes.
+                                if (Math.floor((processedFrames / totalFramesToProcess) * 100) !== previousPercent) {
+                                    setProgress((processedFrames / totalFramesToProcess) * 100);
+                                    setFrameScores([...scores]);
+                                }
+                                releaseBackpressure?.();
+                                break;
                             }
-                        } else {
-                             // The first frame always starts a new scene.
-                            isSceneCut = true;
-                        }
-
-                        if (isSceneCut && currentSceneFrames.length >= MIN_SCENE_FRAMES) {
-                            sceneCount++;
-                            const newScene = await createGifFromFrames(currentSceneFrames, sceneCount);
-                            if (newScene) {
-                                scenes.push(newScene);
-                                setProcessedScenes([...scenes]);
+                            case 'scene': {
+                                const sceneId = ++sceneCount;
+                                // Frames go to the frame store, which keeps memory use within its budget.
+                                const frames = message.frames.map(frame => ({
+                                    frame: putFrame(new ImageData(new Uint8ClampedArray(frame.buffer), message.width, message.height)),
+                                    delay: frame.delay,
+                                }));
+                                encodeQueue = encodeQueue.then(async () => {
+                                    let newScene: GifScene | null = null;
+                                    try {
+                                        if (!signal.aborted && encodeError === null) newScene = await createGifFromFrames(frames, sceneId, message.startFrame);
+                                    } catch (e) {
+                                        // Encodes are cancelled along with the run; only real failures end it.
+                                        if (!signal.aborted && encodeError === null) encodeError = e;
+                                    } finally {
+                                        if (newScene && !signal.aborted) {
+                                            scenes.push(newScene);
+                                            setProcessedScenes([...scenes]);
+                                        } else {
+                                            // The scene was dropped, so nothing else will release its frames.
+                                            releaseFrames(frames);
+                                        }
+                                    }
+                                });
+                                break;
                             }
-                            currentSceneFrames = [];
+                            case 'done':
+                                resolve();
+                                break;
+                            case 'error':
+                                reject(new Error(message.message));
+                                break;
                         }
+                    };
+                    activeSplitter.onerror = (event) => reject(new Error(event.message || "The scene splitter stopped unexpectedly."));
+                });
+                // Errors are rethrown where we await the splitter; this only avoids an unhandled rejection in between.
+                splitDone.catch(() => undefined);
 
-                        currentSceneFrames.push({ data: highResFrameData, delay: 1000 / frameRate });
-                        lastFrameData = currentFrameData;
-                        setProgress(((i + 1) / totalFramesToProcess) * 100);
-                    }
-                    
-                    // Process the last remaining scene
-                    if (currentSceneFrames.length >= MIN_SCENE_FRAMES) {
-                         sceneCount++;
-                         const newScene = await createGifFromFrames(currentSceneFrames, sceneCount);
-                         if (newScene) {
-                            scenes.push(newScene);
-                            setProcessedScenes([...scenes]);
-                         }
-                    }
+                const postToSplitter = (message: SplitterRequest, transfer: Transferable[] = []) => activeSplitter.postMessage(message, transfer);
 
-                    if (scenes.length === 0 && totalFramesToProcess > 0) {
-                         setError("No scenes could be detected. The video might be too short or a single continuous scene. Try adjusting Optimization Settings.");
+                postToSplitter({
+                    type: 'start',
+                    ...layout,
+                    // Set comparison canvas dimensions while maintaining aspect ratio
+                    comparisonWidth: COMPARISON_CANVAS_WIDTH,
+                    comparisonHeight: Math.max(1, Math.round(COMPARISON_CANVAS_WIDTH * (layout.scaledHeight / layout.scaledWidth))),
+                    frameDelay: 1000 / frameRate,
+                    minSceneFrames,
+                    maxSceneFrames,
+                    strategy: sceneDetection,
+                    sensitivity: sceneSensitivity,
+                    reframe,
+                });
+
+                for await (const { index, image } of readVideoFrames(video, { ...frameOptions, signal, onStats: setDecodeStats })) {
+                    while (postedFrames - processedFrames >= MAX_FRAMES_IN_FLIGHT && !signal.aborted) {
+                        await Promise.race([new Promise<void>(resolve => { releaseBackpressure = resolve; }), splitDone]);
                     }
+                    if (signal.aborted) return;
+
+                    // Scale on the main thread while decoding; all pixel reads happen in the worker.
+                    const bitmap = await createImageBitmap(image, { resizeWidth: layout.scaledWidth, resizeHeight: layout.scaledHeight, resizeQuality: 'high' });
+                    postToSplitter({ type: 'frame', index, bitmap }, [bitmap]);
+                    postedFrames++;
+                }
+                if (signal.aborted) return;
 
-                } catch (e: any) {
-                    console.error("Error during video processing:", e);
-                    setError(e.message || "An error occurred while generating GIFs.");
+                postToSplitter({ type: 'end' });
+                try {
+                    await splitDone;
                 } finally {
-                    setIsProcessing(false);
+                    await encodeQueue;
                 }
-            };
-            video.onerror = () => {
-                setError("Could not load video file. It may be corrupted or unsupported.");
-                setIsProcessing(false);
-            };
+                setFrameScores([...scores]);
+                if (signal.aborted) return;
+                if (encodeError !== null) throw encodeError;
+
+                if (scenes.length === 0 && totalFramesToProcess > 0) {
+                     setError("No scenes could be detected. The video might be too short or a single continuous scene. Try adjusting Optimization Settings.");
+                }
+
+            } catch (e: any) {
+                if (signal.aborted) return;
+                console.error("Error during video processing:", e);
+                setError(e.message || "An error occurred while generating GIFs.");
+            } finally {
+                if (!signal.aborted) setIsProcessing(false);
+                splitter?.terminate();
+                splitter = null;
+                if (video) releaseVideo(video);
+            }
         };
 
         processVideo();
-    
+
         return () => {
             abortController.abort();
-            if (videoRef.current && videoRef.current.src) {
-                URL.revokeObjectURL(videoRef.current.src);
-            }
+            splitter?.terminate();
+            setIsProcessing(false);
         };
-    }, [videoFile, workerScriptUrl, settings, baseName]);
+    }, [videoFile, splitSettings, baseName, range, sourceUrl]);
 
-    return { processedScenes, isProcessing, progress, error };
-};
\ No newline at end of file
+    return { processedScenes, isProcessing, progress, error, decodeStats, frameScores };
+};
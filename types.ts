@@ -1,17 +1,200 @@
 
+// The part of a source video a GIF was made from.
+export interface SourceMoment {
+    sourceName: string;        // File name of the video, or the link it was fetched from
+    sourceUrl: string | null;  // The pasted link, when the video came from one
+    startTime: number;         // seconds into the source video
+    endTime: number;           // seconds into the source video
+    startFrame: number;        // First source frame, counted at `frameRate` from the start of the video
+    endFrame: number;          // One past the last source frame
+    frameRate: number;
+}
+
+// A frame kept in the frame store; its pixels are loaded when needed.
+export interface StoredFrame {
+    key: number;
+    width: number;
+    height: number;
+}
+
+export interface SceneFrame {
+    frame: StoredFrame;
+    delay: number; // milliseconds
+}
+
 export interface GifScene {
     id: string;
     dataUrl: string;
     isSelected: boolean;
-    frames: { data: ImageData; delay: number }[];
+    frames: SceneFrame[];
     name: string;
+    startFrame: number; // Index of the scene's first frame among all processed frames.
+    endFrame: number;   // Index one past the scene's last frame.
+    source: SourceMoment;
+    encoding: SceneEncoding;          // The encoding asked for
+    encodeReport: SceneEncodeReport;  // What `dataUrl` was actually encoded with
+}
+
+export interface TimeRange {
+    start: number; // seconds
+    end: number;   // seconds
 }
 
-export interface OptimizationSettings {
+export type SceneDetectionStrategy = 'luma' | 'histogram' | 'edges' | 'adaptive';
+
+export type AspectPreset = 'original' | '9:16' | '1:1' | '4:5' | '16:9' | 'custom';
+
+// How the crop window is placed when the aspect ratio changes.
+export type ReframeMode = 'center' | 'smart';
+
+// Settings that decide which frames are taken from the video and where scenes are cut.
+// Changing any of them means the video has to be split again.
+export interface SplitSettings {
     resolution: 'original' | number;
     frameRate: number;
+    sceneSensitivity: number; // 0-100, higher values split on smaller visual changes
+    minSceneDuration: number; // seconds; shorter cuts are merged into the following scene
+    maxSceneDuration: number; // seconds; 0 disables the limit
+    sceneDetection: SceneDetectionStrategy;
+    aspectRatio: AspectPreset;
+    customAspectWidth: number;  // Used when aspectRatio is 'custom'
+    customAspectHeight: number;
+    reframe: ReframeMode;
+}
+
+// Error diffusion kernels gif.js offers. The serpentine variants scan every other row right to left,
+// which breaks up the diagonal patterns a single scan direction leaves.
+export type DitherKernel = 'FloydSteinberg' | 'FalseFloydSteinberg' | 'Stucki' | 'Atkinson';
+export type DitherMethod = 'none' | DitherKernel | `${DitherKernel}-serpentine`;
+
+// Where a GIF's colours come from: each frame's own palette, one palette computed across all frames,
+// or a fixed brand palette.
+export type PaletteMode = 'frame' | 'global' | 'brand';
+
+// Settings that only affect how frames are turned into a GIF.
+export interface EncodingSettings {
+    quality: number;
+    dither: DitherMethod;
+    paletteMode: PaletteMode;
+    brandPalette: string[]; // '#rrggbb' colours used in 'brand' mode
+    optimizeFrames: boolean; // Store only the changed area of each frame
+    lossyTolerance: number;  // 0-255 colour difference per channel still treated as unchanged when optimizing
+    targetSize: number; // bytes; 0 disables the limit. Other settings are lowered until a GIF fits.
+}
+
+// Settings that only affect exported files, not the scene GIFs.
+export interface ExportSettings {
+    videoLoops: number; // Times a video export repeats the animation, for platforms that don't loop video
+}
+
+export interface OptimizationSettings extends SplitSettings, EncodingSettings, ExportSettings {}
+
+// How a clip plays: its direction, speed and how often it repeats.
+export type PlaybackDirection = 'forward' | 'reverse' | 'pingpong';
+
+export interface PlaybackSettings {
+    loopCount: number;  // Times the animation plays; 0 loops forever
+    direction: PlaybackDirection; // 'pingpong' plays forward, then back
+    speed: number;      // Multiplier; 2 plays twice as fast
+}
+
+// Encoding of a single scene, applied to its stored frames.
+export interface SceneEncoding extends EncodingSettings {
+    playback: PlaybackSettings;
+    resolution: 'original' | number; // Max dimension; frames are only ever scaled down
+    frameStep: number;               // Keep every n-th frame, 1 keeps them all
+    paletteSize: number;             // Colours in a computed palette; below 256 the frames share one even in 'frame' mode
+}
+
+// The parameters a scene GIF ended up with, which differ from its encoding when a target size was searched for.
+export interface SceneEncodeReport {
     quality: number;
-    dither: boolean;
+    resolution: number; // Larger dimension of the encoded GIF
+    frameStep: number;
+    paletteSize: number;
+    size: number;       // bytes
+    unoptimizedSize: number; // bytes before frame optimization; equals `size` when it didn't help or was off
+    attempts: number;   // Encodes it took to find these parameters
+    fitsTarget: boolean;
+}
+
+// Output formats with a registered encoder.
+export type OutputFormat = 'gif' | 'webp' | 'apng' | 'webm' | 'mp4';
+
+// The frames handed to an encoder, which loads each one only when it gets to it, so a long animation is
+// never in memory at once. All frames passed to one encode have the same dimensions.
+export interface EncoderFrames {
+    delays: number[];                                // One per frame, in ms
+    getFrame: (index: number) => Promise<ImageData>;
+}
+
+export interface EncoderOptions {
+    quality: number;                        // 1 (best) to 20 (smallest), as gif.js uses it
+    dither: DitherMethod;
+    palette?: number[];                     // Fixed `[r, g, b, ...]` palette for all frames; by default each frame gets its own
+    loopCount?: number;                     // Times formats that loop by themselves play the animation; 0 or unset loops forever
+    loops?: number;                         // Times the frames are written out by formats that don't loop by themselves
+    onProgress?: (progress: number) => void; // 0-1
+    signal?: AbortSignal;                   // Aborting cancels the encode and rejects its promise
+}
+
+export interface Encoder {
+    format: OutputFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+    isVideo?: boolean; // Video formats honour `loops` instead of looping forever
+    encode: (frames: EncoderFrames, options: EncoderOptions) => Promise<Blob>;
+}
+
+// How a clip is placed in a combined animation of a different size: 'fit' scales it to fit inside with
+// bars, 'fill' scales it to cover and crops the overflow, 'letterbox' keeps its own size (only shrinking
+// clips that are too large) and centres it.
+export type ClipFit = 'fit' | 'fill' | 'letterbox';
+
+export interface CombineLayout {
+    size: 'first' | 'largest' | `${number}x${number}`; // Output size: the first clip's, the largest clip's, or fixed
+    background: string;                 // '#rrggbb' behind bars and transparent areas
+    fit: ClipFit;                       // For clips without their own
+    clipFits: Record<string, ClipFit>;  // Per-clip overrides, by clip id
+}
+
+// The part of a clip's own frames used when combining, by frame index (both inclusive).
+export interface ClipRange {
+    start: number;
+    end: number;
+}
+
+// How one clip hands over to the next when combining. Transitions overlap the end of one clip with the
+// start of the next, so they shorten the combination by their duration.
+export type TransitionType = 'cut' | 'crossfade' | 'dip' | 'slide' | 'wipe';
+
+export interface Transition {
+    type: TransitionType;
+    duration: number; // ms
+    color: string;    // '#rrggbb' the 'dip' transition passes through
+}
+
+// Whether combined clips play one after another or side by side in a grid.
+export type CombineMode = 'sequence' | 'grid';
+
+// What a grid cell shows once its clip has finished but a longer one is still playing.
+export type GridFill = 'loop' | 'hold';
+
+// A grid or collage arrangement; cell rectangles are in grid units.
+export interface GridTemplate {
+    id: string;
+    label: string;
+    columns: number;
+    rows: number;
+    cells: { x: number; y: number; width: number; height: number }[];
+}
+
+export interface GridLayout {
+    template: string;                     // GridTemplate id
+    gutter: number;                       // px between cells and around the edge
+    fill: GridFill;
+    cells: Record<number, string | null>; // Clip id shown in each cell; unassigned cells take clips in order
 }
 
 export interface ParsedGifFrame {
@@ -22,13 +205,28 @@ export interface ParsedGifFrame {
 export interface ParsedGif {
     width: number;
     height: number;
-    frames: ParsedGifFrame[];
+    frames: ParsedGifFrame[]; // Composited to the full screen size
+    loopCount: number;        // Times the animation plays; 0 loops forever
+    comments: string[];       // Text of the file's comment extensions
 }
   
-export interface ParsedGifWithMeta extends ParsedGif {
+// Where a clip in the combine workspace came from.
+export type CombineClipOrigin = 'scene' | 'upload' | 'library';
+
+// A clip in the combine workspace. Clips from every origin keep their frames in the frame store, the
+// way scenes do; a scene's clip shares the scene's frames.
+export interface CombineClip {
     id: string;
     name: string;
-    url: string;
+    origin: CombineClipOrigin;
+    previewUrl: string;         // An image of the whole clip, for the clip list
+    width: number;
+    height: number;
+    frames: SceneFrame[];
+    playback: PlaybackSettings; // How the clip plays in the combination to start with
+    loopCount: number;          // Times the clip played on its own; 0 loops forever
+    comments: string[];
+    sources?: SourceMoment[];   // Known source moments, in playback order
 }
 
 export interface LibraryItem {
@@ -38,4 +236,5 @@ export interface LibraryItem {
     category?: string; // Deprecated, kept for backward compatibility
     categories: string[]; // New: Support multiple tags
     createdAt: number;
+    sources?: SourceMoment[]; // Where the GIF's frames came from, in playback order
 }
\ No newline at end of file
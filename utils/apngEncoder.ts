@@ -0,0 +1,200 @@
+import type { Encoder, EncoderFrames, EncoderOptions } from '../types';
+
+// ------------------------------------------------------------------
+// APNG ENCODER
+// Writes full-colour animated PNGs. Every frame is stored whole, filtered row by row and compressed with
+// the browser's own deflate. APNG is lossless, so the colour settings don't apply.
+// ------------------------------------------------------------------
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_DELAY = 65535; // Frame delays are stored as 16-bit fractions of a second
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const uint32Data = (...values: number[]): Uint8Array => {
+    const data = new Uint8Array(values.length * 4);
+    const view = new DataView(data.buffer);
+    values.forEach((value, i) => view.setUint32(i * 4, value));
+    return data;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+};
+
+/**
+ * Filters each row with whichever PNG filter leaves the smallest sum of residuals, which is the
+ * usual heuristic for what deflate will compress best.
+ */
+const filterPixels = (pixels: Uint8Array, width: number, height: number, channels: number): Uint8Array => {
+    const stride = width * channels;
+    const output = new Uint8Array(height * (stride + 1));
+    const candidate = new Uint8Array(stride);
+    const best = new Uint8Array(stride);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        const previousRow = row - stride;
+        let bestFilter = 0;
+        let bestSum = Infinity;
+
+        for (let filter = 0; filter < 5; filter++) {
+            let sum = 0;
+            for (let x = 0; x < stride; x++) {
+                const value = pixels[row + x];
+                const left = x >= channels ? pixels[row + x - channels] : 0;
+                const up = y > 0 ? pixels[previousRow + x] : 0;
+                const upLeft = y > 0 && x >= channels ? pixels[previousRow + x - channels] : 0;
+                let residual: number;
+                switch (filter) {
+                    case 1: residual = value - left; break;
+                    case 2: residual = value - up; break;
+                    case 3: residual = value - ((left + up) >> 1); break;
+                    case 4: residual = value - paeth(left, up, upLeft); break;
+                    default: residual = value;
+                }
+                candidate[x] = residual & 0xff;
+                // Residuals are signed, so small negative values are as good as small positive ones.
+                sum += candidate[x] < 128 ? candidate[x] : 256 - candidate[x];
+            }
+            if (sum < bestSum) {
+                bestSum = sum;
+                bestFilter = filter;
+                best.set(candidate);
+            }
+        }
+
+        const outputRow = y * (stride + 1);
+        output[outputRow] = bestFilter;
+        output.set(best, outputRow + 1);
+    }
+    return output;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    // The 'deflate' format is zlib-wrapped, which is what PNG image data needs.
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes frames into an animated PNG.
+ * @param frames The frames to encode, each with its delay in milliseconds.
+ * @param options The loop count, plus progress and cancellation hooks; colour settings are ignored.
+ * @returns A promise that resolves to the APNG blob.
+ */
+const encodeApng = async (frames: EncoderFrames, options: EncoderOptions): Promise<Blob> => {
+    const count = frames.delays.length;
+    if (count === 0) throw new Error('Cannot encode an APNG without frames.');
+    const { width, height } = await frames.getFrame(0);
+
+    // Drop the alpha channel when every pixel is opaque; video frames always are. The header needs to
+    // know before any frame is written, so the frames are checked one at a time first.
+    let hasAlpha = false;
+    for (let i = 0; i < count && !hasAlpha; i++) {
+        if (options.signal?.aborted) throw new Error('APNG rendering was cancelled.');
+        const pixels = (await frames.getFrame(i)).data;
+        for (let p = 3; p < pixels.length; p += 4) {
+            if (pixels[p] !== 255) {
+                hasAlpha = true;
+                break;
+            }
+        }
+    }
+    const channels = hasAlpha ? 4 : 3;
+
+    const chunks: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+    const header = new Uint8Array(13);
+    header.set(uint32Data(width, height));
+    header[8] = 8;                  // Bit depth
+    header[9] = hasAlpha ? 6 : 2;   // Colour type: RGBA or RGB
+    chunks.push(createChunk('IHDR', header));
+    chunks.push(createChunk('acTL', uint32Data(count, options.loopCount ?? 0))); // 0 plays forever
+
+    let sequence = 0;
+    for (let i = 0; i < count; i++) {
+        if (options.signal?.aborted) throw new Error('APNG rendering was cancelled.');
+        const data = await frames.getFrame(i);
+        const delay = frames.delays[i];
+
+        const control = new Uint8Array(26);
+        const controlView = new DataView(control.buffer);
+        controlView.setUint32(0, sequence++);
+        controlView.setUint32(4, width);
+        controlView.setUint32(8, height);
+        controlView.setUint32(12, 0);  // x offset
+        controlView.setUint32(16, 0);  // y offset
+        controlView.setUint16(20, Math.min(MAX_DELAY, Math.round(delay)));
+        controlView.setUint16(22, 1000);
+        control[24] = 0;                // Dispose: none
+        control[25] = 0;                // Blend: source, frames are drawn whole
+        chunks.push(createChunk('fcTL', control));
+
+        let pixels: Uint8Array = new Uint8Array(data.data.buffer, data.data.byteOffset, data.data.byteLength);
+        if (!hasAlpha) {
+            const rgb = new Uint8Array(width * height * 3);
+            for (let src = 0, dst = 0; src < pixels.length; src += 4, dst += 3) {
+                rgb[dst] = pixels[src];
+                rgb[dst + 1] = pixels[src + 1];
+                rgb[dst + 2] = pixels[src + 2];
+            }
+            pixels = rgb;
+        }
+        const compressed = await deflate(filterPixels(pixels, width, height, channels));
+
+        if (i === 0) {
+            // The first frame doubles as the still image for viewers without APNG support.
+            chunks.push(createChunk('IDAT', compressed));
+        } else {
+            const frameData = new Uint8Array(4 + compressed.length);
+            new DataView(frameData.buffer).setUint32(0, sequence++);
+            frameData.set(compressed, 4);
+            chunks.push(createChunk('fdAT', frameData));
+        }
+        options.onProgress?.((i + 1) / count);
+    }
+    chunks.push(createChunk('IEND', new Uint8Array(0)));
+
+    return new Blob(chunks, { type: 'image/apng' });
+};
+
+export const apngEncoder: Encoder = {
+    format: 'apng',
+    label: 'APNG',
+    extension: 'png',
+    mimeType: 'image/apng',
+    encode: encodeApng,
+};
@@ -0,0 +1,82 @@
+import type { CombineClip, GifScene, LibraryItem, ParsedGif } from '../types';
+import { parseGifFile } from './gifParser';
+import { putFrame, releaseFrames } from './frameStore';
+import { DEFAULT_PLAYBACK } from './playback';
+
+// ------------------------------------------------------------------
+// COMBINE CLIPS
+// Turns scenes, uploaded GIFs and library items into clips for the combine workspace.
+// ------------------------------------------------------------------
+
+/**
+ * A clip of a scene. It shares the scene's stored frames, so releasing the clip leaves them alone.
+ */
+export const sceneToClip = (scene: GifScene): CombineClip => ({
+    id: scene.id,
+    name: scene.name,
+    origin: 'scene',
+    previewUrl: scene.dataUrl,
+    width: scene.frames[0].frame.width,
+    height: scene.frames[0].frame.height,
+    frames: scene.frames,
+    playback: scene.encoding.playback,
+    loopCount: 0,
+    comments: [],
+    sources: [scene.source],
+});
+
+const parsedGifToClip = (gif: ParsedGif, clip: Pick<CombineClip, 'id' | 'name' | 'origin' | 'previewUrl' | 'sources'>): CombineClip => ({
+    ...clip,
+    width: gif.width,
+    height: gif.height,
+    frames: gif.frames.map(frame => ({ frame: putFrame(frame.imageData), delay: frame.delay })),
+    playback: DEFAULT_PLAYBACK,
+    loopCount: gif.loopCount,
+    comments: gif.comments,
+});
+
+/**
+ * Parses uploaded GIF files into clips.
+ * @param files The GIFs, in the order they should be combined.
+ * @returns A promise that resolves to one clip per file.
+ */
+export const loadGifFileClips = (files: File[]): Promise<CombineClip[]> => {
+    const batch = Date.now();
+    return Promise.all(files.map(async (file, index) => parsedGifToClip(await parseGifFile(file), {
+        id: `upload-${batch}-${index}`,
+        name: file.name.replace(/\.gif$/i, '') || `GIF ${index + 1}`,
+        origin: 'upload',
+        previewUrl: URL.createObjectURL(file),
+    })));
+};
+
+/**
+ * Downloads a library GIF and parses it into a clip, keeping the source moments it was published with.
+ * The same item can be added more than once; each clip gets its own id.
+ */
+export const loadLibraryClip = async (item: LibraryItem): Promise<CombineClip> => {
+    const response = await fetch(item.url);
+    if (!response.ok) {
+        throw new Error(`Could not download "${item.name}" (HTTP ${response.status}).`);
+    }
+    const file = new File([await response.blob()], `${item.name}.gif`, { type: 'image/gif' });
+    return parsedGifToClip(await parseGifFile(file), {
+        id: `library-${item.id}-${Date.now()}`,
+        name: item.name,
+        origin: 'library',
+        previewUrl: item.url,
+        sources: item.sources,
+    });
+};
+
+/**
+ * Frees the frames and preview URLs of clips that are no longer used. Scene clips are left alone,
+ * since their frames belong to the scene.
+ */
+export const releaseClips = (clips: CombineClip[]) => {
+    for (const clip of clips) {
+        if (clip.origin === 'scene') continue;
+        releaseFrames(clip.frames);
+        if (clip.origin === 'upload') URL.revokeObjectURL(clip.previewUrl);
+    }
+};
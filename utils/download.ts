@@ -0,0 +1,25 @@
+// ------------------------------------------------------------------
+// DOWNLOADS
+// Saving exports to the user's device.
+// ------------------------------------------------------------------
+
+/**
+ * Turns a scene or clip name into a safe file name, without an extension.
+ */
+export const sanitizeFilename = (name: string | null): string => {
+    if (!name) return 'download';
+    return name.trim().replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_.-]/g, '').slice(0, 50) || 'download';
+};
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const triggerDownload = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
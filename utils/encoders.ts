@@ -0,0 +1,48 @@
+import type { Encoder, EncoderFrames, OutputFormat } from '../types';
+import { gifEncoder } from './gifEncoder';
+import { webpEncoder } from './webpEncoder';
+import { apngEncoder } from './apngEncoder';
+import { webmEncoder, mp4Encoder } from './videoEncoder';
+
+// ------------------------------------------------------------------
+// ENCODER REGISTRY
+// Every code path that produces an animation looks its encoder up here, so a new output format only
+// needs an `Encoder` implementation and a `registerEncoder` call.
+// ------------------------------------------------------------------
+
+const encoders = new Map<OutputFormat, Encoder>();
+
+export const registerEncoder = (encoder: Encoder) => {
+    encoders.set(encoder.format, encoder);
+};
+
+/**
+ * Looks up the encoder for an output format.
+ * @param format The output format, GIF by default.
+ */
+export const getEncoder = (format: OutputFormat = 'gif'): Encoder => {
+    const encoder = encoders.get(format);
+    if (!encoder) throw new Error(`No encoder is registered for ${format}.`);
+    return encoder;
+};
+
+export const getEncoders = (): Encoder[] => [...encoders.values()];
+
+/**
+ * Hands a list of frames to an encoder without loading them up front.
+ * @param frames The frames in playback order, each with its delay in milliseconds.
+ * @param load Loads a frame's pixels, such as from the frame store, once the encoder gets to it.
+ */
+export const createEncoderFrames = <T extends { delay: number }>(frames: T[], load: (frame: T) => Promise<ImageData>): EncoderFrames => ({
+    delays: frames.map(frame => frame.delay),
+    getFrame: index => load(frames[index]),
+});
+
+registerEncoder(gifEncoder);
+registerEncoder(webpEncoder);
+registerEncoder(apngEncoder);
+// Video needs WebCodecs, which not every browser has.
+if (typeof VideoEncoder !== 'undefined') {
+    registerEncoder(webmEncoder);
+    registerEncoder(mp4Encoder);
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { applyFilmstripEdit, getTrimAfterEdit, type FilmstripEdit } from './filmstrip';
+import type { ClipRange } from '../types';
+
+// Twelve frames, each delay naming the frame it started as.
+const frames = Array.from({ length: 12 }, (_, i) => ({ delay: i }));
+
+// The frames a trim covers after an edit.
+const trimmedAfter = (trim: ClipRange, edit: FilmstripEdit) => {
+    const next = applyFilmstripEdit(frames, edit);
+    const { start, end } = getTrimAfterEdit(trim, edit, next.length);
+    return next.slice(start, end + 1).map(frame => frame.delay);
+};
+
+describe('getTrimAfterEdit', () => {
+    it('stays put when frames are reordered inside the trim', () => {
+        const edit: FilmstripEdit = { type: 'move', start: 4, end: 5, to: 6 };
+        expect(getTrimAfterEdit({ start: 2, end: 8 }, edit, 12)).toEqual({ start: 2, end: 8 });
+    });
+
+    it('keeps the frames that stay when frames move out of the trim', () => {
+        expect(trimmedAfter({ start: 2, end: 8 }, { type: 'move', start: 4, end: 5, to: 9 })).toEqual([2, 3, 6, 7, 8]);
+        expect(trimmedAfter({ start: 2, end: 8 }, { type: 'move', start: 4, end: 5, to: 0 })).toEqual([2, 3, 6, 7, 8]);
+    });
+
+    it('keeps the same frames when frames move past it', () => {
+        expect(trimmedAfter({ start: 6, end: 8 }, { type: 'move', start: 1, end: 2, to: 9 })).toEqual([6, 7, 8]);
+    });
+
+    it('follows a moved range it lies within', () => {
+        expect(trimmedAfter({ start: 3, end: 4 }, { type: 'move', start: 2, end: 5, to: 7 })).toEqual([3, 4]);
+    });
+
+    it('keeps the frames that stay when it partly overlaps the moved range', () => {
+        expect(trimmedAfter({ start: 4, end: 8 }, { type: 'move', start: 2, end: 5, to: 8 })).toEqual([6, 7, 8]);
+    });
+
+    it('moves to the frame after deleted frames that held the whole trim', () => {
+        expect(getTrimAfterEdit({ start: 3, end: 4 }, { type: 'delete', start: 2, end: 5 }, 8)).toEqual({ start: 2, end: 2 });
+    });
+
+    it('keeps copies of the frames at its end', () => {
+        expect(trimmedAfter({ start: 2, end: 5 }, { type: 'duplicate', start: 4, end: 5 })).toEqual([2, 3, 4, 5, 4, 5]);
+    });
+});
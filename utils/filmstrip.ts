@@ -0,0 +1,90 @@
+import type { ClipRange } from '../types';
+import { MIN_FRAME_DELAY } from './playback';
+
+// ------------------------------------------------------------------
+// FILMSTRIP EDITS
+// Frame-level edits of a combined sequence. Edits return a new list and leave the frames themselves
+// shared, so edited frames still point at the same image data. Ranges are inclusive.
+// ------------------------------------------------------------------
+
+export type FilmstripEdit =
+    | { type: 'delete'; start: number; end: number }
+    | { type: 'duplicate'; start: number; end: number }
+    | { type: 'move'; start: number; end: number; to: number } // `to` counts positions in the list without the range
+    | { type: 'delay'; start: number; end: number; delay: number };
+
+/**
+ * The frames of a clip between its in and out points.
+ * @param frames The clip's frames in their original order.
+ * @param range The in and out points, or undefined for the whole clip.
+ */
+export const applyClipRange = <T>(frames: T[], range: ClipRange | undefined): T[] => {
+    if (!range) return frames;
+    const start = Math.min(Math.max(0, range.start), frames.length - 1);
+    const end = Math.min(Math.max(start, range.end), frames.length - 1);
+    return frames.slice(start, end + 1);
+};
+
+/**
+ * Applies one filmstrip edit. Duplicates go right after the range they copy; delays are never shorter
+ * than browsers play.
+ */
+export const applyFilmstripEdit = <T extends { delay: number }>(frames: T[], edit: FilmstripEdit): T[] => {
+    const { start, end } = edit;
+    switch (edit.type) {
+        case 'delete':
+            return [...frames.slice(0, start), ...frames.slice(end + 1)];
+        case 'duplicate':
+            return [...frames.slice(0, end + 1), ...frames.slice(start, end + 1).map(frame => ({ ...frame })), ...frames.slice(end + 1)];
+        case 'move': {
+            const rest = [...frames.slice(0, start), ...frames.slice(end + 1)];
+            const to = Math.min(Math.max(0, edit.to), rest.length);
+            return [...rest.slice(0, to), ...frames.slice(start, end + 1), ...rest.slice(to)];
+        }
+        case 'delay': {
+            const delay = Math.max(MIN_FRAME_DELAY, Math.round(edit.delay));
+            return frames.map((frame, i) => i >= start && i <= end ? { ...frame, delay } : frame);
+        }
+    }
+};
+
+/**
+ * Keeps a trim on the same frames when an edit adds, removes or moves frames. Copies of frames at the end
+ * of the trim are kept in it; if every trimmed frame is deleted, the trim moves to the frame after them.
+ * A trim stays put when frames are only reordered inside it, and follows frames that move within it
+ * otherwise; if it partly overlaps the moved range it keeps the frames that stay.
+ * @param trim The trim before the edit.
+ * @param edit The edit.
+ * @param length The number of frames after the edit.
+ */
+export const getTrimAfterEdit = (trim: ClipRange, edit: FilmstripEdit, length: number): ClipRange => {
+    const count = edit.end - edit.start + 1;
+    let { start, end } = trim;
+    if (edit.type === 'delete') {
+        start = start < edit.start ? start : start > edit.end ? start - count : edit.start;
+        end = end < edit.start ? end : end > edit.end ? end - count : edit.start - 1;
+    } else if (edit.type === 'duplicate') {
+        start = start <= edit.end ? start : start + count;
+        end = end < edit.end ? end : end + count;
+    } else if (edit.type === 'move') {
+        const to = Math.min(Math.max(0, edit.to), length - count);
+        const holdsMoved = start <= edit.start && end >= edit.end;
+        // Frames reordered inside the trim leave the same frames in it.
+        if (holdsMoved && to >= start && to + count - 1 <= end) return { start, end };
+        // Where each frame ends up: moved frames start at `to`, the rest close the gap and make room.
+        const isMoved = (i: number) => i >= edit.start && i <= edit.end;
+        const moveIndex = (i: number) => {
+            if (isMoved(i)) return to + i - edit.start;
+            const rest = i < edit.start ? i : i - count;
+            return rest < to ? rest : rest + count;
+        };
+        // A trim that loses some of its frames to the move keeps the frames that stay.
+        const firstKept = isMoved(start) && !isMoved(end) ? edit.end + 1 : start;
+        const lastKept = isMoved(end) && !isMoved(start) ? edit.start - 1 : end;
+        start = moveIndex(firstKept);
+        end = moveIndex(lastKept);
+    }
+    const last = Math.max(0, length - 1);
+    start = Math.min(last, start);
+    return { start, end: Math.min(last, Math.max(start, end)) };
+};
@@ -0,0 +1,202 @@
+export type FrameSourceMode = 'sequential' | 'seek';
+
+export interface DecodeStats {
+    mode: FrameSourceMode;
+    framesDecoded: number;
+    elapsedMs: number;
+    framesPerSecond: number;
+}
+
+export interface SourceFrame {
+    index: number;
+    time: number; // Media time of the captured frame, in seconds.
+    // The paused video element. It shows this frame until the next one is requested, so draw it right away.
+    image: CanvasImageSource;
+}
+
+export interface FrameSourceOptions {
+    frameRate: number;
+    startTime?: number;
+    endTime?: number;
+    signal?: AbortSignal;
+    onStats?: (stats: DecodeStats) => void;
+}
+
+// Requesting video frame callbacks isn't in every DOM lib version yet, so we describe the part we use.
+interface VideoFrameCallbackMetadata {
+    mediaTime: number;
+}
+
+type FrameCallbackVideo = HTMLVideoElement & {
+    requestVideoFrameCallback: (callback: (now: number, metadata: VideoFrameCallbackMetadata) => void) => number;
+    cancelVideoFrameCallback: (handle: number) => void;
+};
+
+const SEEK_TIMEOUT_MS = 5000;       // A single seek should never take longer than this.
+const STALL_TIMEOUT_MS = 3000;      // Playback that presents no frame for this long falls back to seeking.
+const PLAYBACK_RATE = 2;            // Play faster than real time; we only need a few frames per second.
+const STATS_INTERVAL_MS = 500;      // How often throughput is reported.
+
+const supportsFrameCallback = (video: HTMLVideoElement): video is FrameCallbackVideo =>
+    typeof (video as FrameCallbackVideo).requestVideoFrameCallback === 'function';
+
+/**
+ * Loads a video file into a muted, detached video element and waits for its metadata.
+ * Call `releaseVideo` when done to free the object URL.
+ * @param file The video file to load.
+ * @returns A promise that resolves to the video element.
+ */
+export const loadVideo = (file: File): Promise<HTMLVideoElement> => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(file);
+    return new Promise((resolve, reject) => {
+        video.onloadedmetadata = () => resolve(video);
+        video.onerror = () => {
+            releaseVideo(video);
+            reject(new Error("Could not load video file. It may be corrupted or unsupported."));
+        };
+    });
+};
+
+/**
+ * Stops a video created by `loadVideo` and revokes its object URL.
+ * @param video The video element to release.
+ */
+export const releaseVideo = (video: HTMLVideoElement) => {
+    video.pause();
+    if (video.src) URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+};
+
+/**
+ * Calculates how many frames `readVideoFrames` will produce for the given range.
+ * @param duration The video duration in seconds.
+ * @param options The frame rate and optional range.
+ */
+export const getFrameCount = (duration: number, { frameRate, startTime = 0, endTime }: FrameSourceOptions): number => {
+    const end = Math.min(endTime ?? duration, duration);
+    return Math.max(0, Math.floor((end - startTime) * frameRate));
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+        const seekTimeout = setTimeout(() => reject(new Error(`Video seek timed out at ${time.toFixed(2)}s`)), SEEK_TIMEOUT_MS);
+        const onSeeked = () => {
+            video.removeEventListener('seeked', onSeeked);
+            clearTimeout(seekTimeout);
+            resolve();
+        };
+        video.addEventListener('seeked', onSeeked);
+        video.currentTime = time;
+    });
+};
+
+/**
+ * Plays the video until a frame at or after `time` is presented, then pauses on it.
+ * Resolves with the frame's media time, or null if playback stalled or the video ended first.
+ */
+const playTo = (video: FrameCallbackVideo, time: number): Promise<number | null> => {
+    return new Promise<number | null>((resolve, reject) => {
+        let handle = 0;
+        let stallTimeout = 0;
+
+        const finish = (mediaTime: number | null) => {
+            window.clearTimeout(stallTimeout);
+            video.cancelVideoFrameCallback(handle);
+            video.removeEventListener('ended', onEnded);
+            video.pause();
+            resolve(mediaTime);
+        };
+        const onEnded = () => finish(null);
+        const armStallTimeout = () => {
+            window.clearTimeout(stallTimeout);
+            stallTimeout = window.setTimeout(() => finish(null), STALL_TIMEOUT_MS);
+        };
+        const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+            if (metadata.mediaTime >= time) {
+                finish(metadata.mediaTime);
+            } else {
+                armStallTimeout();
+                handle = video.requestVideoFrameCallback(onFrame);
+            }
+        };
+
+        video.addEventListener('ended', onEnded);
+        handle = video.requestVideoFrameCallback(onFrame);
+        armStallTimeout();
+        video.play().catch(error => {
+            window.clearTimeout(stallTimeout);
+            video.cancelVideoFrameCallback(handle);
+            video.removeEventListener('ended', onEnded);
+            reject(error);
+        });
+    });
+};
+
+/**
+ * Reads frames from a loaded video at a fixed frame rate.
+ *
+ * Where `requestVideoFrameCallback` is available, the video is played forward and each frame is captured
+ * as it's presented, so the browser decodes the stream once, in order. Per-frame seeking forces a decode
+ * from the previous keyframe for every sample, which is what made long videos slow. The source falls back
+ * to seeking when frame callbacks are unsupported, when playback stalls, and while the tab is hidden
+ * (browsers stop presenting frames in background tabs, but seeks still complete).
+ * @param video A video element whose metadata has loaded, e.g. from `loadVideo`.
+ * @param options Frame rate, optional start/end time in seconds, abort signal and throughput callback.
+ */
+export async function* readVideoFrames(video: HTMLVideoElement, options: FrameSourceOptions): AsyncGenerator<SourceFrame> {
+    const { frameRate, startTime = 0, signal, onStats } = options;
+    const totalFrames = getFrameCount(video.duration, options);
+    let mode: FrameSourceMode = supportsFrameCallback(video) ? 'sequential' : 'seek';
+
+    const startedAt = performance.now();
+    let lastStatsAt = startedAt;
+    let framesDecoded = 0;
+    const reportStats = (force: boolean) => {
+        const now = performance.now();
+        if (!onStats || (!force && now - lastStatsAt < STATS_INTERVAL_MS)) return;
+        lastStatsAt = now;
+        const elapsedMs = now - startedAt;
+        onStats({ mode, framesDecoded, elapsedMs, framesPerSecond: elapsedMs > 0 ? (framesDecoded / elapsedMs) * 1000 : 0 });
+    };
+
+    video.playbackRate = PLAYBACK_RATE;
+    await seekTo(video, startTime);
+    let presentedTime = startTime;
+
+    try {
+        for (let i = 0; i < totalFrames; i++) {
+            if (signal?.aborted) return;
+            const time = startTime + i / frameRate;
+
+            // When the source has fewer frames than we sample, the presented frame already covers this time.
+            if (presentedTime < time) {
+                if (mode === 'sequential' && !document.hidden && supportsFrameCallback(video)) {
+                    const mediaTime = await playTo(video, time);
+                    if (mediaTime === null) {
+                        // Playback stalled or ended early; finish the remaining frames by seeking.
+                        mode = 'seek';
+                        await seekTo(video, time);
+                        presentedTime = time;
+                    } else {
+                        presentedTime = mediaTime;
+                    }
+                } else {
+                    await seekTo(video, time);
+                    presentedTime = time;
+                }
+            }
+
+            framesDecoded++;
+            reportStats(false);
+            yield { index: i, time: presentedTime, image: video };
+        }
+    } finally {
+        video.pause();
+        reportStats(true);
+    }
+}
@@ -0,0 +1,216 @@
+import type { StoredFrame, SceneFrame } from '../types';
+
+// ------------------------------------------------------------------
+// FRAME STORE
+// Scene frames live here instead of on the scenes themselves. Frames stay uncompressed in memory up to
+// a budget; beyond it the oldest frames are compressed to PNG, and once the compressed frames outgrow
+// their own budget they are moved to IndexedDB. Frames are loaded back on demand.
+// ------------------------------------------------------------------
+
+const MEMORY_BUDGET = 512 * 1024 * 1024;              // Uncompressed pixels kept in memory.
+const COMPRESSED_MEMORY_BUDGET = 128 * 1024 * 1024;   // Compressed frames kept in memory before moving to disk.
+const NOTIFY_INTERVAL_MS = 250;                       // Usage listeners are updated at most this often.
+const DB_NAME = 'gifit-frame-store';
+const DB_STORE = 'frames';
+
+interface FrameEntry {
+    width: number;
+    height: number;
+    raw: ImageData | null;  // Uncompressed pixels, while within the memory budget
+    blob: Blob | null;      // PNG, once compressed and until moved to disk
+    diskSize: number;       // Bytes in IndexedDB, 0 while the frame is in memory
+}
+
+export interface FrameStoreUsage {
+    frameCount: number;
+    memoryBytes: number;      // Uncompressed frames in memory
+    compressedBytes: number;  // Compressed frames in memory
+    diskBytes: number;        // Compressed frames in IndexedDB
+    budgetBytes: number;
+}
+
+const entries = new Map<number, FrameEntry>();
+const listeners: ((usage: FrameStoreUsage) => void)[] = [];
+let nextKey = 1;
+let memoryBytes = 0;
+let compressedBytes = 0;
+let diskBytes = 0;
+let isEvicting = false;
+let dbPromise: Promise<IDBDatabase> | null = null;
+let notifyTimeout: number | null = null;
+
+export const getFrameStoreUsage = (): FrameStoreUsage => ({
+    frameCount: entries.size,
+    memoryBytes,
+    compressedBytes,
+    diskBytes,
+    budgetBytes: MEMORY_BUDGET,
+});
+
+const notify = () => {
+    if (notifyTimeout !== null) return;
+    notifyTimeout = window.setTimeout(() => {
+        notifyTimeout = null;
+        const usage = getFrameStoreUsage();
+        listeners.forEach(listener => listener(usage));
+    }, NOTIFY_INTERVAL_MS);
+};
+
+export const subscribeToFrameStore = (listener: (usage: FrameStoreUsage) => void) => {
+    listeners.push(listener);
+    listener(getFrameStoreUsage());
+    return () => {
+        const index = listeners.indexOf(listener);
+        if (index > -1) listeners.splice(index, 1);
+    };
+};
+
+// --- IndexedDB ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async db => {
+            // Frames from an earlier session can't be referenced anymore.
+            await requestToPromise(db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).clear());
+            return db;
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(action(db.transaction(DB_STORE, mode).objectStore(DB_STORE)));
+};
+
+// --- Compression ---
+
+const compressFrame = async (data: ImageData): Promise<Blob> => {
+    const canvas = new OffscreenCanvas(data.width, data.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.putImageData(data, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+};
+
+const decompressFrame = async (blob: Blob, width: number, height: number): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context.");
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Compresses the oldest uncompressed frames until the memory budget is met, moving compressed frames to
+ * IndexedDB once they outgrow their own budget. Runs in the background; only one pass runs at a time.
+ */
+const enforceBudget = async () => {
+    if (isEvicting) return;
+    isEvicting = true;
+    try {
+        // Map iteration follows insertion order, so the oldest frames are compressed first.
+        for (const [key, entry] of entries) {
+            if (memoryBytes <= MEMORY_BUDGET) break;
+            if (!entry.raw) continue;
+
+            const raw = entry.raw;
+            const blob = await compressFrame(raw);
+            // The frame may have been released while it was being compressed.
+            if (entries.get(key) !== entry) continue;
+
+            if (compressedBytes + blob.size > COMPRESSED_MEMORY_BUDGET) {
+                await withStore('readwrite', store => store.put(blob, key));
+                if (entries.get(key) !== entry) {
+                    await withStore('readwrite', store => store.delete(key));
+                    continue;
+                }
+                entry.diskSize = blob.size;
+                diskBytes += blob.size;
+            } else {
+                entry.blob = blob;
+                compressedBytes += blob.size;
+            }
+            entry.raw = null;
+            memoryBytes -= raw.data.byteLength;
+            notify();
+        }
+    } catch (e) {
+        // Frames that couldn't be moved simply stay in memory.
+        console.error("Frame store could not free memory:", e);
+    } finally {
+        isEvicting = false;
+    }
+};
+
+// --- Public API ---
+
+/**
+ * Adds a frame to the store. The store takes ownership of the pixels; don't modify them afterwards.
+ * @param data The frame's pixels.
+ * @returns A handle for loading the frame later.
+ */
+export const putFrame = (data: ImageData): StoredFrame => {
+    const key = nextKey++;
+    entries.set(key, { width: data.width, height: data.height, raw: data, blob: null, diskSize: 0 });
+    memoryBytes += data.data.byteLength;
+    notify();
+    if (memoryBytes > MEMORY_BUDGET) enforceBudget();
+    return { key, width: data.width, height: data.height };
+};
+
+/**
+ * Loads a frame's pixels, decompressing or reading them from disk if needed.
+ * The returned pixels are shared with the store when the frame is still uncompressed; don't modify them.
+ */
+export const loadFrame = async (frame: StoredFrame): Promise<ImageData> => {
+    const entry = entries.get(frame.key);
+    if (!entry) throw new Error('This frame is no longer available.');
+    if (entry.raw) return entry.raw;
+    const blob = entry.blob ?? await withStore<Blob | undefined>('readonly', store => store.get(frame.key));
+    if (!blob) throw new Error('This frame is no longer available.');
+    return decompressFrame(blob, entry.width, entry.height);
+};
+
+/**
+ * Removes frames from the store. Frames that are already gone are ignored.
+ */
+export const releaseFrames = (frames: SceneFrame[]) => {
+    const diskKeys: number[] = [];
+    for (const { frame } of frames) {
+        const entry = entries.get(frame.key);
+        if (!entry) continue;
+        entries.delete(frame.key);
+        if (entry.raw) memoryBytes -= entry.raw.data.byteLength;
+        if (entry.blob) compressedBytes -= entry.blob.size;
+        if (entry.diskSize > 0) {
+            diskBytes -= entry.diskSize;
+            diskKeys.push(frame.key);
+        }
+    }
+    if (diskKeys.length > 0) {
+        withStore('readwrite', store => {
+            diskKeys.slice(1).forEach(key => store.delete(key));
+            return store.delete(diskKeys[0]);
+        }).catch(e => console.error("Could not remove frames from disk:", e));
+    }
+    notify();
+};
+
+/**
+ * Estimates how many bytes of uncompressed frames a processing run will produce.
+ */
+export const estimateFrameBytes = (frameCount: number, width: number, height: number) => frameCount * width * height * 4;
@@ -0,0 +1,142 @@
+import type { Encoder, EncoderFrames, EncoderOptions } from '../types';
+
+const WORKER_SCRIPT_URL = 'https://cdn.jsdelivr.net/npm/gif.js@0.2.0/dist/gif.worker.js';
+const WORKER_COUNT = 2;
+const RENDER_TIMEOUT_MS = 20000; // Without progress for this long, rendering is given up
+
+let workerScriptPromise: Promise<string> | null = null;
+
+/**
+ * Loads the gif.js worker script once and serves it from a Blob URL to avoid CORS issues.
+ */
+const getWorkerScript = (): Promise<string> => {
+    if (!workerScriptPromise) {
+        workerScriptPromise = fetch(WORKER_SCRIPT_URL)
+            .then(async response => {
+                if (!response.ok) throw new Error(`Network response was not ok`);
+                const blob = new Blob([await response.text()], { type: 'application/javascript' });
+                return URL.createObjectURL(blob);
+            })
+            .catch(err => {
+                // Let the next encode try again.
+                workerScriptPromise = null;
+                console.error("Failed to create worker script URL:", err);
+                throw new Error("Failed to initialize GIF generator. Please check your connection and try again.");
+            });
+    }
+    return workerScriptPromise;
+};
+
+/**
+ * Maps the number of times the animation plays onto gif.js's `repeat`: 0 loops forever, -1 writes no
+ * loop extension so it plays once, and n repeats n more times.
+ */
+const getRepeat = (loopCount = 0) => loopCount <= 0 ? 0 : loopCount === 1 ? -1 : loopCount - 1;
+
+// A frame as the gif.js worker takes it, and the encoded bytes it sends back.
+interface GifTask {
+    index: number;
+    last: boolean;
+    delay: number;
+    transparent: null;
+    width: number;
+    height: number;
+    quality: number;
+    dither: string | false;
+    globalPalette: number[] | false;
+    repeat: number;
+    canTransfer: boolean;
+    data: Uint8ClampedArray;
+}
+
+interface GifPart {
+    index: number;
+    data: Uint8Array[]; // Pages of encoded bytes; only the first `cursor` bytes of the last one are used
+    cursor: number;
+}
+
+const renderPart = (worker: Worker, task: GifTask): Promise<GifPart> => new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<GifPart>) => resolve(event.data);
+    worker.onerror = (event) => reject(new Error(event.message || 'GIF rendering failed.'));
+    worker.postMessage(task);
+});
+
+/**
+ * Encodes frames into a GIF with gif.js's workers. gif.js itself keeps every frame until the end, so the
+ * workers are fed here instead: each frame is loaded when a worker is free for it, and only its encoded
+ * bytes are kept. All frames must have the same dimensions.
+ * @param frames The frames to encode, each with its delay in milliseconds.
+ * @param options The colour settings and loop count, plus optional progress and cancellation hooks.
+ * @returns A promise that resolves to the GIF blob.
+ */
+const encodeGif = async (frames: EncoderFrames, options: EncoderOptions): Promise<Blob> => {
+    const count = frames.delays.length;
+    if (count === 0) throw new Error('Cannot encode a GIF without frames.');
+    const workerScript = await getWorkerScript();
+    let first: ImageData | null = await frames.getFrame(0);
+    if (options.signal?.aborted) throw new Error('GIF rendering was cancelled.');
+    const { width, height } = first;
+
+    const parts: GifPart[] = [];
+    const workers = Array.from({ length: Math.min(WORKER_COUNT, count) }, () => new Worker(workerScript));
+    let nextIndex = 0;
+    let finishedFrames = 0;
+    let isStopped = false;
+    let fail: (error: Error) => void = () => {};
+    const failed = new Promise<never>((_, reject) => { fail = reject; });
+    const handleAbort = () => fail(new Error('GIF rendering was cancelled.'));
+    let renderTimeout: ReturnType<typeof setTimeout> | undefined;
+    const startTimeout = () => {
+        clearTimeout(renderTimeout);
+        renderTimeout = setTimeout(() => fail(new Error('GIF rendering timed out.')), RENDER_TIMEOUT_MS);
+    };
+
+    const runWorker = async (worker: Worker) => {
+        for (let index = nextIndex++; index < count && !isStopped; index = nextIndex++) {
+            const data: ImageData = index === 0 && first ? first : await frames.getFrame(index);
+            if (index === 0) first = null;
+            if (isStopped) return;
+            parts[index] = await renderPart(worker, {
+                index,
+                last: index === count - 1,
+                delay: frames.delays[index],
+                transparent: null,
+                width,
+                height,
+                quality: options.quality,
+                dither: options.dither === 'none' ? false : options.dither,
+                globalPalette: options.palette ?? false,
+                repeat: getRepeat(options.loopCount),
+                canTransfer: true,
+                data: data.data,
+            });
+            finishedFrames++;
+            startTimeout();
+            options.onProgress?.(finishedFrames / count);
+        }
+    };
+
+    try {
+        startTimeout();
+        options.signal?.addEventListener('abort', handleAbort, { once: true });
+        await Promise.race([Promise.all(workers.map(runWorker)), failed]);
+    } finally {
+        isStopped = true;
+        clearTimeout(renderTimeout);
+        options.signal?.removeEventListener('abort', handleAbort);
+        workers.forEach(worker => worker.terminate());
+    }
+
+    return new Blob(
+        parts.flatMap(part => part.data.map((page, i) => i === part.data.length - 1 ? page.subarray(0, part.cursor) : page)),
+        { type: 'image/gif' }
+    );
+};
+
+export const gifEncoder: Encoder = {
+    format: 'gif',
+    label: 'GIF',
+    extension: 'gif',
+    mimeType: 'image/gif',
+    encode: encodeGif,
+};
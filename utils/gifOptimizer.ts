@@ -0,0 +1,336 @@
+import { parseGIF, decompressFrame } from 'gifuct-js';
+import type { OptimizerRequest, OptimizerResponse } from '../workers/gifOptimizer.worker';
+
+// ------------------------------------------------------------------
+// GIF FRAME OPTIMIZER
+// gif.js writes every frame in full. This rewrites a GIF so each frame only covers the rectangle that
+// changed since the previous one, with unchanged pixels inside it left transparent, and frames kept on
+// screen (disposal 1) for the next one to draw over.
+// ------------------------------------------------------------------
+
+// Lossy tolerances offered in the settings.
+export const LOSSY_TOLERANCE_OPTIONS = [
+    { value: 0, label: 'Lossless' },
+    { value: 4, label: 'Subtle' },
+    { value: 8, label: 'Light' },
+    { value: 16, label: 'Medium' },
+    { value: 32, label: 'Strong (Smallest File)' },
+];
+
+type ColorTable = [number, number, number][];
+
+interface OutputFrame {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    indices: Uint8Array;
+    colorTable: ColorTable;
+    isGlobalTable: boolean;  // Uses the file's global colour table instead of writing its own
+    transparentIndex: number; // -1 for none
+    delay: number;           // centiseconds
+}
+
+const DISPOSAL_KEEP = 1;
+const MAX_LZW_CODE = 4096;
+
+// Colour tables hold a power of two entries, at least two.
+const getTableBits = (size: number) => Math.max(1, Math.ceil(Math.log2(Math.max(2, size))));
+
+const padTable = (table: ColorTable): ColorTable => {
+    const padded = table.slice();
+    while (padded.length < 1 << getTableBits(table.length)) padded.push([0, 0, 0]);
+    return padded;
+};
+
+class ByteWriter {
+    private chunks: Uint8Array[] = [];
+    private buffer: number[] = [];
+
+    byte(...values: number[]) {
+        for (const value of values) this.buffer.push(value & 0xff);
+        if (this.buffer.length > 65536) this.flush();
+    }
+
+    uint16(value: number) {
+        this.byte(value, value >> 8);
+    }
+
+    ascii(text: string) {
+        for (const char of text) this.byte(char.charCodeAt(0));
+    }
+
+    bytes(data: Uint8Array) {
+        this.flush();
+        this.chunks.push(data);
+    }
+
+    private flush() {
+        if (this.buffer.length === 0) return;
+        this.chunks.push(Uint8Array.from(this.buffer));
+        this.buffer = [];
+    }
+
+    toBlob(): Blob {
+        this.flush();
+        return new Blob(this.chunks, { type: 'image/gif' });
+    }
+}
+
+/**
+ * LZW-compresses colour indices the way GIF image data expects, packed into sub-blocks.
+ */
+const encodeLzw = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const table = new Map<number, number>();
+
+    const output: number[] = [];
+    let bits = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (prefix << 8) | index;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_LZW_CODE) {
+            emit(clearCode);
+            table.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = index;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) output.push(bits & 0xff);
+
+    // Sub-blocks of up to 255 bytes, each preceded by its length, then a terminator.
+    const blocks = new Uint8Array(1 + output.length + Math.ceil(output.length / 255) + 1);
+    blocks[0] = minCodeSize;
+    let offset = 1;
+    for (let i = 0; i < output.length; i += 255) {
+        const block = output.slice(i, i + 255);
+        blocks[offset++] = block.length;
+        blocks.set(block, offset);
+        offset += block.length;
+    }
+    blocks[offset] = 0;
+    return blocks;
+};
+
+const writeColorTable = (writer: ByteWriter, table: ColorTable) => {
+    for (const [r, g, b] of padTable(table)) writer.byte(r, g, b);
+};
+
+const writeGif = (width: number, height: number, globalTable: ColorTable | null, loopCount: number | null, frames: OutputFrame[]): Blob => {
+    const writer = new ByteWriter();
+    writer.ascii('GIF89a');
+    writer.uint16(width);
+    writer.uint16(height);
+    writer.byte(globalTable ? 0xf0 | (getTableBits(globalTable.length) - 1) : 0, 0, 0);
+    if (globalTable) writeColorTable(writer, globalTable);
+
+    if (loopCount !== null) {
+        writer.byte(0x21, 0xff, 0x0b);
+        writer.ascii('NETSCAPE2.0');
+        writer.byte(0x03, 0x01);
+        writer.uint16(loopCount);
+        writer.byte(0);
+    }
+
+    for (const frame of frames) {
+        const hasTransparency = frame.transparentIndex >= 0;
+        writer.byte(0x21, 0xf9, 0x04, (DISPOSAL_KEEP << 2) | (hasTransparency ? 1 : 0));
+        writer.uint16(frame.delay);
+        writer.byte(hasTransparency ? frame.transparentIndex : 0, 0);
+
+        writer.byte(0x2c);
+        writer.uint16(frame.left);
+        writer.uint16(frame.top);
+        writer.uint16(frame.width);
+        writer.uint16(frame.height);
+        const tableBits = getTableBits(frame.colorTable.length);
+        writer.byte(frame.isGlobalTable ? 0 : 0x80 | (tableBits - 1));
+        if (!frame.isGlobalTable) writeColorTable(writer, frame.colorTable);
+        writer.bytes(encodeLzw(frame.indices, Math.max(2, tableBits)));
+    }
+
+    writer.byte(0x3b);
+    return writer.toBlob();
+};
+
+/**
+ * Shrinks a GIF by storing only what changes between frames. Each frame is cropped to the rectangle that
+ * differs from what is already on screen, and unchanged pixels inside it become transparent so they
+ * compress to runs. Frames with no changes are dropped and their delay added to the frame before.
+ * GIFs that already use offsets, transparency or disposal are left as they are.
+ * This is slow for long GIFs, so it runs in a worker; use `optimizeGif` on the main thread.
+ * @param gif The bytes of the GIF to optimize, with full-size opaque frames as gif.js writes them.
+ * @param tolerance Colour difference per channel (0-255) that still counts as unchanged. Above 0 this is
+ * lossy: small changes are skipped, but never drift, since each frame is compared with what is on screen.
+ * @returns The optimized GIF, or null if the GIF is left as it is.
+ */
+export const optimizeGifBuffer = (gif: ArrayBuffer, tolerance = 0): Blob | null => {
+    const parsed = parseGIF(gif);
+    const { width, height } = parsed.lsd;
+
+    let loopCount: number | null = null;
+    const sourceFrames = [];
+    for (const block of parsed.frames) {
+        if ('application' in block && block.application.id === 'NETSCAPE2.0' && block.application.blocks[0] === 1) {
+            loopCount = block.application.blocks[1] | (block.application.blocks[2] << 8);
+        } else if ('image' in block && block.image) {
+            const { descriptor } = block.image;
+            const isFullFrame = descriptor.left === 0 && descriptor.top === 0 && descriptor.width === width && descriptor.height === height;
+            if (!isFullFrame || block.gce?.extras.transparentColorGiven || (block.gce?.extras.disposal ?? 0) > DISPOSAL_KEEP) return null;
+            sourceFrames.push(block);
+        }
+    }
+    if (sourceFrames.length < 2) return null;
+
+    const globalTable = parsed.lsd.gct.exists ? parsed.gct : null;
+    // RGB of what is on screen after the frames so far.
+    const screen = new Uint8Array(width * height * 3);
+    const frames: OutputFrame[] = [];
+
+    for (const block of sourceFrames) {
+        const { pixels, colorTable } = decompressFrame(block, parsed.gct, false);
+        const delay = block.gce?.delay ?? 0;
+
+        if (frames.length === 0) {
+            for (let p = 0; p < pixels.length; p++) screen.set(colorTable[pixels[p]] ?? [0, 0, 0], p * 3);
+            frames.push({
+                left: 0, top: 0, width, height,
+                indices: Uint8Array.from(pixels),
+                colorTable,
+                isGlobalTable: colorTable === globalTable,
+                transparentIndex: -1,
+                delay,
+            });
+            continue;
+        }
+
+        // Find the changed pixels and the rectangle around them.
+        const changed = new Uint8Array(width * height);
+        let minX = width, minY = height, maxX = -1, maxY = -1;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const p = y * width + x;
+                const color = colorTable[pixels[p]] ?? [0, 0, 0];
+                const s = p * 3;
+                if (Math.abs(color[0] - screen[s]) <= tolerance && Math.abs(color[1] - screen[s + 1]) <= tolerance && Math.abs(color[2] - screen[s + 2]) <= tolerance) continue;
+                changed[p] = 1;
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+        if (maxX < 0) {
+            frames[frames.length - 1].delay += delay;
+            continue;
+        }
+
+        // Unchanged pixels need an index that no changed pixel in the rectangle uses.
+        const cropWidth = maxX - minX + 1;
+        const cropHeight = maxY - minY + 1;
+        const used = new Uint8Array(256);
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                const p = y * width + x;
+                if (changed[p]) used[pixels[p]] = 1;
+            }
+        }
+        let table = colorTable;
+        let transparentIndex = -1;
+        for (let i = 0; i < table.length; i++) {
+            if (!used[i]) {
+                transparentIndex = i;
+                break;
+            }
+        }
+        if (transparentIndex === -1 && table.length < 256) {
+            transparentIndex = table.length;
+            table = [...table, [0, 0, 0]];
+        }
+
+        const indices = new Uint8Array(cropWidth * cropHeight);
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                const p = y * width + x;
+                const i = (y - minY) * cropWidth + (x - minX);
+                if (changed[p] || transparentIndex === -1) {
+                    indices[i] = pixels[p];
+                    screen.set(colorTable[pixels[p]] ?? [0, 0, 0], p * 3);
+                } else {
+                    indices[i] = transparentIndex;
+                }
+            }
+        }
+        frames.push({
+            left: minX, top: minY, width: cropWidth, height: cropHeight,
+            indices,
+            colorTable: table,
+            isGlobalTable: table === globalTable,
+            transparentIndex,
+            delay,
+        });
+    }
+
+    return writeGif(width, height, globalTable, loopCount, frames);
+};
+
+/**
+ * Shrinks a GIF with `optimizeGifBuffer` in a worker, so the page stays responsive meanwhile.
+ * @param gif The GIF to optimize.
+ * @param tolerance Colour difference per channel (0-255) that still counts as unchanged.
+ * @param signal Cancels the optimization, which then rejects.
+ * @returns A promise that resolves to the smaller of the optimized and original GIF.
+ */
+export const optimizeGif = async (gif: Blob, tolerance = 0, signal?: AbortSignal): Promise<Blob> => {
+    const buffer = await gif.arrayBuffer();
+    if (signal?.aborted) throw new Error('GIF optimization was cancelled.');
+    const worker = new Worker(new URL('../workers/gifOptimizer.worker.ts', import.meta.url), { type: 'module' });
+    let handleAbort = () => {};
+    try {
+        const optimized = await new Promise<Blob | null>((resolve, reject) => {
+            handleAbort = () => reject(new Error('GIF optimization was cancelled.'));
+            signal?.addEventListener('abort', handleAbort, { once: true });
+            worker.onmessage = (event: MessageEvent<OptimizerResponse>) => {
+                const message = event.data;
+                if (message.type === 'done') resolve(message.gif);
+                else reject(new Error(message.message));
+            };
+            worker.onerror = (event) => reject(new Error(event.message || "The GIF optimizer stopped unexpectedly."));
+            const request: OptimizerRequest = { buffer, tolerance };
+            // The worker gets the bytes instead of a copy; they aren't needed here anymore.
+            worker.postMessage(request, [buffer]);
+        });
+        return optimized && optimized.size < gif.size ? optimized : gif;
+    } finally {
+        signal?.removeEventListener('abort', handleAbort);
+        worker.terminate();
+    }
+};
@@ -1,31 +1,102 @@
-import { parseGIF, decompressFrames } from 'gifuct-js';
+import { parseGIF, decompressFrames, type ParsedFrameWithoutPatch } from 'gifuct-js';
 import type { ParsedGif, ParsedGifFrame } from '../types';
 
+// GIF disposal methods: what happens to a frame's area before the next frame is drawn.
+const DISPOSAL_RESTORE_BACKGROUND = 2;
+const DISPOSAL_RESTORE_PREVIOUS = 3;
+// Browsers play frames with a delay this short at 100ms, so they are read the same way.
+const MIN_BROWSER_DELAY = 20;
+const DEFAULT_DELAY = 100;
+
+// gifuct-js parses comment extensions but leaves them out of its types.
+type CommentBlock = { comment: { blocks: number[] } };
+type GifBlock = ReturnType<typeof parseGIF>['frames'][number] | CommentBlock;
+
+/**
+ * Draws a frame's pixels onto the screen, skipping transparent ones and anything outside the screen.
+ */
+const drawFrame = (screen: Uint8ClampedArray, screenWidth: number, screenHeight: number, frame: ParsedFrameWithoutPatch) => {
+    const { left, top, width, height } = frame.dims;
+    for (let y = 0; y < height; y++) {
+        const screenY = top + y;
+        if (screenY >= screenHeight) break;
+        for (let x = 0; x < width; x++) {
+            const screenX = left + x;
+            if (screenX >= screenWidth) break;
+            const index = frame.pixels[y * width + x];
+            if (index === frame.transparentIndex) continue;
+            const color = frame.colorTable[index];
+            if (!color) continue;
+            const offset = (screenY * screenWidth + screenX) * 4;
+            screen[offset] = color[0];
+            screen[offset + 1] = color[1];
+            screen[offset + 2] = color[2];
+            screen[offset + 3] = 255;
+        }
+    }
+};
+
+/**
+ * Clears a frame's area to transparent. Browsers restore to transparency rather than the background colour.
+ */
+const clearFrame = (screen: Uint8ClampedArray, screenWidth: number, screenHeight: number, frame: ParsedFrameWithoutPatch) => {
+    const { left, top, width, height } = frame.dims;
+    const right = Math.min(screenWidth, left + width);
+    for (let y = top; y < Math.min(screenHeight, top + height); y++) {
+        if (right > left) screen.fill(0, (y * screenWidth + left) * 4, (y * screenWidth + right) * 4);
+    }
+};
+
 /**
  * Parses a GIF file into its constituent frames, each with its ImageData and delay.
- * It uses an OffscreenCanvas for efficient, non-blocking image processing.
+ * Frames are composited onto the logical screen the way browsers play them: each frame is drawn at its
+ * offset over what is already there, transparent pixels let earlier frames show through, and the
+ * disposal method decides whether its area is kept, cleared or restored before the next frame.
  * @param file The GIF file to parse.
  * @returns A promise that resolves to a ParsedGif object.
  */
 export async function parseGifFile(file: File): Promise<ParsedGif> {
     const buffer = await file.arrayBuffer();
     const gif = parseGIF(buffer);
-    
-    // Using `decompressFrames` with the second argument as `true` builds full frames,
-    // handling disposal methods automatically, which simplifies rendering.
-    const frames = decompressFrames(gif, true);
-    
+    const frames = decompressFrames(gif, false);
+
     if (!frames || frames.length === 0) {
         throw new Error('Could not parse frames from GIF.');
     }
 
     const { width, height } = gif.lsd;
-    
+    if (!width || !height) {
+        throw new Error('This GIF has no screen size.');
+    }
+
+    const screen = new Uint8ClampedArray(width * height * 4);
     const parsedFrames: ParsedGifFrame[] = frames.map(frame => {
-        // The patch is the full frame image data when `buildPatch` is true.
-        const imageData = new ImageData(new Uint8ClampedArray(frame.patch), width, height);
-        return { imageData, delay: frame.delay };
+        const saved = frame.disposalType === DISPOSAL_RESTORE_PREVIOUS ? screen.slice() : null;
+        drawFrame(screen, width, height, frame);
+        const imageData = new ImageData(screen.slice(), width, height);
+
+        if (frame.disposalType === DISPOSAL_RESTORE_BACKGROUND) {
+            clearFrame(screen, width, height, frame);
+        } else if (saved) {
+            screen.set(saved);
+        }
+        return { imageData, delay: frame.delay < MIN_BROWSER_DELAY ? DEFAULT_DELAY : frame.delay };
     });
-    
-    return { width, height, frames: parsedFrames };
+
+    // The loop count and comments live in extension blocks between the frames.
+    let loopCount = 1;
+    const comments: string[] = [];
+    const decoder = new TextDecoder();
+    const blocks: GifBlock[] = gif.frames;
+    for (const block of blocks) {
+        if ('application' in block && block.application.id === 'NETSCAPE2.0' && block.application.blocks[0] === 1) {
+            // The extension counts repeats after the first play; 0 repeats forever.
+            const repeats = block.application.blocks[1] | (block.application.blocks[2] << 8);
+            loopCount = repeats === 0 ? 0 : repeats + 1;
+        } else if ('comment' in block) {
+            comments.push(decoder.decode(new Uint8Array(block.comment.blocks)));
+        }
+    }
+
+    return { width, height, frames: parsedFrames, loopCount, comments };
 }
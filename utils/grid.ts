@@ -0,0 +1,193 @@
+import type { ClipFit, CombineLayout, GridFill, GridLayout, GridTemplate } from '../types';
+import { MIN_FRAME_DELAY } from './playback';
+import { getClipPlacement, resolveOutputSize } from './layout';
+
+const uniformCells = (columns: number, rows: number): GridTemplate['cells'] =>
+    Array.from({ length: columns * rows }, (_, i) => ({ x: i % columns, y: Math.floor(i / columns), width: 1, height: 1 }));
+
+// Arrangements offered in grid mode.
+export const GRID_TEMPLATES: GridTemplate[] = [
+    { id: 'side-by-side', label: 'Side by Side', columns: 2, rows: 1, cells: uniformCells(2, 1) },
+    { id: 'stacked', label: 'Stacked', columns: 1, rows: 2, cells: uniformCells(1, 2) },
+    { id: '2x2', label: '2 × 2', columns: 2, rows: 2, cells: uniformCells(2, 2) },
+    { id: '3-across', label: 'Three Across', columns: 3, rows: 1, cells: uniformCells(3, 1) },
+    { id: '3x3', label: '3 × 3', columns: 3, rows: 3, cells: uniformCells(3, 3) },
+    {
+        id: 'feature-left', label: 'Large + 2', columns: 2, rows: 2,
+        cells: [{ x: 0, y: 0, width: 1, height: 2 }, { x: 1, y: 0, width: 1, height: 1 }, { x: 1, y: 1, width: 1, height: 1 }],
+    },
+    {
+        id: 'feature-top', label: 'Large + 3', columns: 3, rows: 3,
+        cells: [{ x: 0, y: 0, width: 3, height: 2 }, ...uniformCells(3, 1).map(cell => ({ ...cell, y: 2 }))],
+    },
+];
+
+export const DEFAULT_GRID_LAYOUT: GridLayout = { template: 'side-by-side', gutter: 8, fill: 'loop', cells: {} };
+
+export const GRID_GUTTER_OPTIONS = [0, 4, 8, 16, 24];
+
+export const GRID_FILL_OPTIONS: { value: GridFill; label: string }[] = [
+    { value: 'loop', label: 'Loop' },
+    { value: 'hold', label: 'Hold Last Frame' },
+];
+
+// The id the composed grid goes by in the combined sequence.
+export const GRID_CLIP_ID = 'grid';
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+interface Rect extends Size {
+    x: number;
+    y: number;
+}
+
+export const getGridTemplate = (id: string): GridTemplate => GRID_TEMPLATES.find(template => template.id === id) ?? GRID_TEMPLATES[0];
+
+/**
+ * The clip shown in each cell. Cells nobody has assigned take the clips in order; cells assigned a clip
+ * that has since been removed stay empty.
+ * @param grid The grid layout.
+ * @param clipIds The clips in the workspace, in order.
+ */
+export const getGridCellClipIds = (grid: GridLayout, clipIds: string[]): (string | null)[] =>
+    getGridTemplate(grid.template).cells.map((_, i) => {
+        const assigned = grid.cells[i];
+        if (assigned === undefined) return clipIds[i] ?? null;
+        return assigned !== null && clipIds.includes(assigned) ? assigned : null;
+    });
+
+/**
+ * Works out the size of a grid. A fixed output size is the whole grid's; otherwise the first or largest
+ * clip sets the size of one grid unit.
+ * @param grid The grid layout.
+ * @param size The layout's output size.
+ * @param clips The sizes of the clips in the grid.
+ */
+export const resolveGridSize = (grid: GridLayout, size: CombineLayout['size'], clips: Size[]): Size => {
+    const template = getGridTemplate(grid.template);
+    if (size !== 'first' && size !== 'largest') return resolveOutputSize(size, clips);
+    const unit = resolveOutputSize(size, clips);
+    return {
+        width: template.columns * unit.width + (template.columns + 1) * grid.gutter,
+        height: template.rows * unit.height + (template.rows + 1) * grid.gutter,
+    };
+};
+
+/**
+ * Where each of a template's cells sits in the output, in pixels.
+ * @param template The grid template.
+ * @param output The size of the whole grid.
+ * @param gutter The space between cells and around the edge, in pixels.
+ */
+export const getGridCellRects = (template: GridTemplate, output: Size, gutter: number): Rect[] => {
+    const unitWidth = Math.max(1, (output.width - (template.columns + 1) * gutter) / template.columns);
+    const unitHeight = Math.max(1, (output.height - (template.rows + 1) * gutter) / template.rows);
+    return template.cells.map(cell => ({
+        x: Math.round(gutter + cell.x * (unitWidth + gutter)),
+        y: Math.round(gutter + cell.y * (unitHeight + gutter)),
+        width: Math.round(cell.width * unitWidth + (cell.width - 1) * gutter),
+        height: Math.round(cell.height * unitHeight + (cell.height - 1) * gutter),
+    }));
+};
+
+// A moment in a grid animation: how long it lasts and which frame each cell shows, by index.
+export interface GridStep {
+    delay: number;
+    frames: (number | null)[];
+}
+
+/**
+ * Lines up clips playing side by side into one timeline, as long as the longest clip. A new step starts
+ * whenever any cell changes frame; changes closer together than browsers can play are merged.
+ * @param cells Each cell's frames in playback order, or null for an empty cell.
+ * @param fill Whether shorter clips loop or hold their last frame until the longest one ends.
+ * @returns The steps in order.
+ */
+export const buildGridTimeline = (cells: ({ delay: number }[] | null)[], fill: GridFill): GridStep[] => {
+    const timings = cells.map(frames => {
+        if (!frames || frames.length === 0) return null;
+        const starts: number[] = [];
+        let time = 0;
+        for (const frame of frames) {
+            starts.push(time);
+            time += frame.delay;
+        }
+        return { starts, duration: time };
+    });
+    const total = Math.max(0, ...timings.map(timing => timing?.duration ?? 0));
+    if (total === 0) return [];
+
+    // Every moment a cell changes frame, looping shorter clips when asked to.
+    const changes = new Set<number>();
+    timings.forEach(timing => {
+        if (!timing) return;
+        for (let offset = 0; offset < total; offset += timing.duration) {
+            timing.starts.forEach(start => offset + start < total && changes.add(offset + start));
+            if (fill === 'hold') break;
+        }
+    });
+
+    const boundaries: number[] = [];
+    [...changes].sort((a, b) => a - b).forEach(time => {
+        const previous = boundaries[boundaries.length - 1];
+        if (boundaries.length > 0 && (time - previous < MIN_FRAME_DELAY || total - time < MIN_FRAME_DELAY)) return;
+        boundaries.push(time);
+    });
+
+    const frameAt = (timing: { starts: number[]; duration: number }, time: number) => {
+        let local = fill === 'loop' ? time % timing.duration : time;
+        if (timing.duration - local < 1e-6) local = fill === 'loop' ? 0 : local;
+        let index = 0;
+        while (index + 1 < timing.starts.length && timing.starts[index + 1] <= local + 1e-6) index++;
+        return index;
+    };
+
+    return boundaries.map((time, i) => ({
+        delay: (boundaries[i + 1] ?? total) - time,
+        frames: timings.map(timing => timing ? frameAt(timing, time) : null),
+    }));
+};
+
+/**
+ * Creates a function that draws one frame per cell into a grid frame, over the background colour.
+ * Each frame is placed in its cell with its fit and cropped to the cell.
+ * @param output The size of the whole grid.
+ * @param cells Where each cell sits, from getGridCellRects.
+ * @param background The colour of the gutters, empty cells and transparent pixels.
+ */
+export const createGridComposer = (output: Size, cells: Rect[], background: string) => {
+    const sourceCanvas = document.createElement('canvas');
+    const targetCanvas = document.createElement('canvas');
+    targetCanvas.width = output.width;
+    targetCanvas.height = output.height;
+    const sourceCtx = sourceCanvas.getContext('2d');
+    const targetCtx = targetCanvas.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx || !targetCtx) throw new Error("Could not get canvas context.");
+    targetCtx.imageSmoothingEnabled = true;
+    targetCtx.imageSmoothingQuality = 'high';
+
+    return (frames: ({ data: ImageData; fit: ClipFit } | null)[]): ImageData => {
+        targetCtx.fillStyle = background;
+        targetCtx.fillRect(0, 0, output.width, output.height);
+        frames.forEach((frame, i) => {
+            const cell = cells[i];
+            if (!frame || !cell) return;
+            if (sourceCanvas.width !== frame.data.width || sourceCanvas.height !== frame.data.height) {
+                sourceCanvas.width = frame.data.width;
+                sourceCanvas.height = frame.data.height;
+            }
+            sourceCtx.putImageData(frame.data, 0, 0);
+            const { x, y, width, height } = getClipPlacement(frame.data, cell, frame.fit);
+            targetCtx.save();
+            targetCtx.beginPath();
+            targetCtx.rect(cell.x, cell.y, cell.width, cell.height);
+            targetCtx.clip();
+            targetCtx.drawImage(sourceCanvas, cell.x + x, cell.y + y, width, height);
+            targetCtx.restore();
+        });
+        return targetCtx.getImageData(0, 0, output.width, output.height);
+    };
+};
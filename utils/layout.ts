@@ -0,0 +1,92 @@
+import type { ClipFit, CombineLayout } from '../types';
+
+export const DEFAULT_COMBINE_LAYOUT: CombineLayout = { size: 'first', background: '#000000', fit: 'fit', clipFits: {} };
+
+// Output sizes offered when combining.
+export const OUTPUT_SIZE_OPTIONS: { value: CombineLayout['size']; label: string }[] = [
+    { value: 'first', label: 'Same as First Clip' },
+    { value: 'largest', label: 'Largest Clip' },
+    { value: '640x360', label: '640×360 (16:9)' },
+    { value: '360x640', label: '360×640 (9:16)' },
+    { value: '480x480', label: '480×480 (1:1)' },
+    { value: '480x600', label: '480×600 (4:5)' },
+    { value: '854x480', label: '854×480 (16:9)' },
+];
+
+export const CLIP_FIT_OPTIONS: { value: ClipFit; label: string }[] = [
+    { value: 'fit', label: 'Fit' },
+    { value: 'fill', label: 'Fill' },
+    { value: 'letterbox', label: 'Letterbox' },
+];
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+/**
+ * Works out the size of a combined animation.
+ * @param size The layout's output size.
+ * @param clips The sizes of the clips, in order.
+ */
+export const resolveOutputSize = (size: CombineLayout['size'], clips: Size[]): Size => {
+    if (clips.length === 0) return { width: 1, height: 1 };
+    if (size === 'first') return { width: clips[0].width, height: clips[0].height };
+    if (size === 'largest') {
+        return clips.reduce((largest, clip) => clip.width * clip.height > largest.width * largest.height ? clip : largest);
+    }
+    const [width, height] = size.split('x').map(Number);
+    return { width, height };
+};
+
+/**
+ * Where a clip's frames are drawn in the output; the rectangle can extend past the output when filling.
+ */
+export const getClipPlacement = (clip: Size, output: Size, fit: ClipFit) => {
+    const containScale = Math.min(output.width / clip.width, output.height / clip.height);
+    const scale = fit === 'fill'
+        ? Math.max(output.width / clip.width, output.height / clip.height)
+        : fit === 'letterbox' ? Math.min(1, containScale) : containScale;
+    const width = Math.round(clip.width * scale);
+    const height = Math.round(clip.height * scale);
+    return { x: Math.round((output.width - width) / 2), y: Math.round((output.height - height) / 2), width, height };
+};
+
+/**
+ * Creates a function that places frames of any size onto the output size. Frames that already match
+ * and are opaque are passed through as they are.
+ * @param output The output size.
+ * @param background The colour behind bars and transparent pixels.
+ */
+export const createFrameLayouter = (output: Size, background: string) => {
+    const sourceCanvas = document.createElement('canvas');
+    const targetCanvas = document.createElement('canvas');
+    targetCanvas.width = output.width;
+    targetCanvas.height = output.height;
+    const sourceCtx = sourceCanvas.getContext('2d');
+    const targetCtx = targetCanvas.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx || !targetCtx) throw new Error("Could not get canvas context.");
+    targetCtx.imageSmoothingEnabled = true;
+    targetCtx.imageSmoothingQuality = 'high';
+
+    const isOpaque = (frame: ImageData) => {
+        for (let i = 3; i < frame.data.length; i += 4) {
+            if (frame.data[i] !== 255) return false;
+        }
+        return true;
+    };
+
+    return (frame: ImageData, fit: ClipFit): ImageData => {
+        if (frame.width === output.width && frame.height === output.height && isOpaque(frame)) return frame;
+        if (sourceCanvas.width !== frame.width || sourceCanvas.height !== frame.height) {
+            sourceCanvas.width = frame.width;
+            sourceCanvas.height = frame.height;
+        }
+        sourceCtx.putImageData(frame, 0, 0);
+        const { x, y, width, height } = getClipPlacement(frame, output, fit);
+        targetCtx.fillStyle = background;
+        targetCtx.fillRect(0, 0, output.width, output.height);
+        targetCtx.drawImage(sourceCanvas, x, y, width, height);
+        return targetCtx.getImageData(0, 0, output.width, output.height);
+    };
+};
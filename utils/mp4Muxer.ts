@@ -0,0 +1,125 @@
+import type { MuxerChunk } from './webmMuxer';
+
+// ------------------------------------------------------------------
+// MP4 MUXER
+// Writes encoded H.264 frames (length-prefixed, as WebCodecs emits them in `avc` format) into an MP4
+// file with a single video track. All samples go into one chunk in `mdat`, followed by `moov`.
+// ------------------------------------------------------------------
+
+const TIMESCALE = 1000; // Timestamps are in ms
+
+// Identity transform, as 16.16 and 2.30 fixed point values.
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const uint8 = (...values: number[]) => Uint8Array.from(values);
+
+const uint16 = (...values: number[]): Uint8Array => {
+    const bytes = new Uint8Array(values.length * 2);
+    const view = new DataView(bytes.buffer);
+    values.forEach((value, i) => view.setUint16(i * 2, value));
+    return bytes;
+};
+
+const uint32 = (...values: number[]): Uint8Array => {
+    const bytes = new Uint8Array(values.length * 4);
+    const view = new DataView(bytes.buffer);
+    values.forEach((value, i) => view.setUint32(i * 4, value));
+    return bytes;
+};
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+    const content = concat(payload);
+    return concat([uint32(8 + content.length), ascii(type), content]);
+};
+
+// A box with a version byte and 24 bits of flags.
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+    box(type, uint8(version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff), ...payload);
+
+/**
+ * Run-length encodes the sample durations for the `stts` box.
+ */
+const getTimeToSample = (durations: number[]): number[][] => {
+    const entries: number[][] = [];
+    for (const duration of durations) {
+        const last = entries[entries.length - 1];
+        if (last && last[1] === duration) last[0]++;
+        else entries.push([1, duration]);
+    }
+    return entries;
+};
+
+/**
+ * Builds an MP4 file from encoded H.264 frames.
+ * @param chunks The encoded frames in decode order, the first being a key frame.
+ * @param description The `avcC` decoder configuration from the encoder.
+ * @param width The video width.
+ * @param height The video height.
+ */
+export const muxMp4 = (chunks: MuxerChunk[], description: Uint8Array, width: number, height: number): Blob => {
+    const last = chunks[chunks.length - 1];
+    const duration = last ? last.timestamp + last.duration : 0;
+    // Durations come from the timestamps, so rounding never makes the track drift.
+    const durations = chunks.map((chunk, i) => (i < chunks.length - 1 ? chunks[i + 1].timestamp : duration) - chunk.timestamp);
+
+    const fileType = box('ftyp', ascii('isom'), uint32(0x200), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+    const mediaData = box('mdat', ...chunks.map(chunk => chunk.data));
+    // The single chunk of samples starts right after the `mdat` header.
+    const chunkOffset = fileType.length + 8;
+
+    const sampleEntry = box('avc1',
+        new Uint8Array(6),                  // Reserved
+        uint16(1),                          // Data reference index
+        new Uint8Array(16),                 // Pre-defined and reserved
+        uint16(width, height),
+        uint32(0x00480000, 0x00480000),     // 72 dpi
+        uint32(0),                          // Reserved
+        uint16(1),                          // Frames per sample
+        new Uint8Array(32),                 // Compressor name
+        uint16(0x0018, 0xffff),             // Depth, pre-defined
+        box('avcC', description),
+    );
+    const timeToSample = getTimeToSample(durations);
+    const keyFrames = chunks.flatMap((chunk, i) => chunk.isKey ? [i + 1] : []);
+
+    const sampleTable = box('stbl',
+        fullBox('stsd', 0, 0, uint32(1), sampleEntry),
+        fullBox('stts', 0, 0, uint32(timeToSample.length), ...timeToSample.map(entry => uint32(...entry))),
+        fullBox('stss', 0, 0, uint32(keyFrames.length, ...keyFrames)),
+        fullBox('stsc', 0, 0, uint32(1, 1, chunks.length, 1)),
+        fullBox('stsz', 0, 0, uint32(0, chunks.length, ...chunks.map(chunk => chunk.data.length))),
+        fullBox('stco', 0, 0, uint32(1, chunkOffset)),
+    );
+    const mediaInfo = box('minf',
+        fullBox('vmhd', 0, 1, uint16(0, 0, 0, 0)),
+        box('dinf', fullBox('dref', 0, 0, uint32(1), fullBox('url ', 0, 1))),
+        sampleTable,
+    );
+    const media = box('mdia',
+        fullBox('mdhd', 0, 0, uint32(0, 0, TIMESCALE, duration), uint16(0x55c4, 0)), // Language 'und'
+        fullBox('hdlr', 0, 0, uint32(0), ascii('vide'), new Uint8Array(12), ascii('VideoHandler\0')),
+        mediaInfo,
+    );
+    const track = box('trak',
+        fullBox('tkhd', 0, 0x000003, uint32(0, 0, 1, 0, duration, 0, 0), uint16(0, 0, 0, 0), uint32(...MATRIX), uint32(width * 0x10000, height * 0x10000)),
+        media,
+    );
+    const movie = box('moov',
+        fullBox('mvhd', 0, 0, uint32(0, 0, TIMESCALE, duration, 0x00010000), uint16(0x0100, 0), uint32(0, 0), uint32(...MATRIX), new Uint8Array(24), uint32(2)),
+        track,
+    );
+
+    return new Blob([fileType, mediaData, movie], { type: 'video/mp4' });
+};
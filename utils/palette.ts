@@ -0,0 +1,348 @@
+import type { DitherKernel, DitherMethod, EncoderFrames, EncodingSettings } from '../types';
+
+const MAX_PALETTE_SAMPLES = 60000; // Pixels sampled across all frames when building a palette.
+
+interface ColorBox {
+    colors: Uint32Array; // Packed 0xRRGGBB
+    range: number;       // Widest channel range, used to pick the next box to split
+    channel: number;     // Shift of the widest channel: 16 red, 8 green, 0 blue
+}
+
+const makeBox = (colors: Uint32Array): ColorBox => {
+    let best = { range: -1, channel: 16 };
+    for (const channel of [16, 8, 0]) {
+        let min = 255;
+        let max = 0;
+        for (let i = 0; i < colors.length; i++) {
+            const value = (colors[i] >> channel) & 0xff;
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        if (max - min > best.range) best = { range: max - min, channel };
+    }
+    return { colors, ...best };
+};
+
+/**
+ * Samples evenly spread pixels from frames fed one at a time, up to `MAX_PALETTE_SAMPLES` in total.
+ * @param totalPixels The pixel count of all frames together, so the samples cover every frame.
+ */
+const createPixelSampler = (totalPixels: number) => {
+    const stride = Math.max(1, Math.floor(totalPixels / MAX_PALETTE_SAMPLES));
+    const samples: number[] = [];
+    let skip = 0;
+    return {
+        samples,
+        add: ({ data }: ImageData) => {
+            for (let i = 0; i < data.length; i += 4) {
+                if (skip++ % stride !== 0) continue;
+                samples.push((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+            }
+        },
+    };
+};
+
+// Median cut over sampled colours, packed as 0xRRGGBB.
+const medianCut = (samples: number[], size: number): number[] => {
+    const boxes: ColorBox[] = [makeBox(Uint32Array.from(samples))];
+    while (boxes.length < Math.min(256, size)) {
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].colors.length > 1 && boxes[i].range > 0 && (target === -1 || boxes[i].range > boxes[target].range)) target = i;
+        }
+        if (target === -1) break;
+
+        const { colors, channel } = boxes[target];
+        const sorted = colors.slice().sort((a, b) => ((a >> channel) & 0xff) - ((b >> channel) & 0xff));
+        const median = Math.floor(sorted.length / 2);
+        boxes.splice(target, 1, makeBox(sorted.subarray(0, median)), makeBox(sorted.subarray(median)));
+    }
+
+    return boxes.flatMap(({ colors }) => {
+        let r = 0, g = 0, b = 0;
+        for (let i = 0; i < colors.length; i++) {
+            r += (colors[i] >> 16) & 0xff;
+            g += (colors[i] >> 8) & 0xff;
+            b += colors[i] & 0xff;
+        }
+        return [Math.round(r / colors.length), Math.round(g / colors.length), Math.round(b / colors.length)];
+    });
+};
+
+/**
+ * Builds a palette of up to `size` colours for a set of frames with median cut: the colour box with the
+ * widest channel is repeatedly split at its median until there are enough boxes.
+ * @param frames The frames the palette is for.
+ * @param size The number of colours, at most 256.
+ * @returns The palette as a flat `[r, g, b, r, g, b, ...]` array, as gif.js expects.
+ */
+export const buildMedianCutPalette = (frames: ImageData[], size: number): number[] => {
+    const totalPixels = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+    if (totalPixels === 0) return [0, 0, 0];
+    const sampler = createPixelSampler(totalPixels);
+    frames.forEach(sampler.add);
+    return medianCut(sampler.samples, size);
+};
+
+const MAX_BRAND_COLORS = 256;
+
+// Dithering choices offered in the settings.
+export const DITHER_OPTIONS: { value: DitherMethod; label: string }[] = [
+    { value: 'none', label: 'Off' },
+    { value: 'FloydSteinberg', label: 'Floyd–Steinberg' },
+    { value: 'FloydSteinberg-serpentine', label: 'Floyd–Steinberg (Serpentine)' },
+    { value: 'FalseFloydSteinberg', label: 'False Floyd–Steinberg' },
+    { value: 'FalseFloydSteinberg-serpentine', label: 'False Floyd–Steinberg (Serpentine)' },
+    { value: 'Stucki', label: 'Stucki' },
+    { value: 'Stucki-serpentine', label: 'Stucki (Serpentine)' },
+    { value: 'Atkinson', label: 'Atkinson' },
+    { value: 'Atkinson-serpentine', label: 'Atkinson (Serpentine)' },
+];
+
+// Where each kernel spreads a pixel's error, as [weight, dx, dy]. These match the kernels in gif.js.
+const DITHER_KERNELS: Record<DitherKernel, number[][]> = {
+    FloydSteinberg: [[7 / 16, 1, 0], [3 / 16, -1, 1], [5 / 16, 0, 1], [1 / 16, 1, 1]],
+    FalseFloydSteinberg: [[3 / 8, 1, 0], [3 / 8, 0, 1], [2 / 8, 1, 1]],
+    Stucki: [
+        [8 / 42, 1, 0], [4 / 42, 2, 0],
+        [2 / 42, -2, 1], [4 / 42, -1, 1], [8 / 42, 0, 1], [4 / 42, 1, 1], [2 / 42, 2, 1],
+        [1 / 42, -2, 2], [2 / 42, -1, 2], [4 / 42, 0, 2], [2 / 42, 1, 2], [1 / 42, 2, 2],
+    ],
+    Atkinson: [[1 / 8, 1, 0], [1 / 8, 2, 0], [1 / 8, -1, 1], [1 / 8, 0, 1], [1 / 8, 1, 1], [1 / 8, 0, 2]],
+};
+
+const toHex = (r: number, g: number, b: number) =>
+    '#' + [r, g, b].map(value => Math.min(255, Math.max(0, Math.round(value))).toString(16).padStart(2, '0')).join('');
+
+const uniqueColors = (colors: string[]) => [...new Set(colors)].slice(0, MAX_BRAND_COLORS);
+
+/**
+ * Reads hex colours (`#ff8800`, `ff8800`, `#f80` or `0xff8800`) from free text, in order and without duplicates.
+ * Short codes need their `#`, so plain numbers aren't mistaken for colours.
+ * @returns The colours as lowercase `#rrggbb` strings.
+ */
+export const parseHexPalette = (text: string): string[] => {
+    const colors: string[] = [];
+    for (const [, short, long] of text.matchAll(/(?:#([0-9a-f]{3})|(?:#|0x|\b)([0-9a-f]{6}))\b/gi)) {
+        const full = short ? short.split('').map(char => char + char).join('') : long;
+        colors.push('#' + full.toLowerCase());
+    }
+    return uniqueColors(colors);
+};
+
+/**
+ * Reads the colours of a GIMP palette (.gpl): one `R G B [name]` line per colour after the header.
+ */
+export const parseGplPalette = (text: string): string[] => {
+    const lines = text.split(/\r?\n/);
+    if (!lines[0]?.trim().startsWith('GIMP Palette')) throw new Error("This isn't a GIMP palette file.");
+    const colors: string[] = [];
+    for (const line of lines.slice(1)) {
+        const match = line.match(/^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(\s|$)/);
+        if (match) colors.push(toHex(Number(match[1]), Number(match[2]), Number(match[3])));
+    }
+    return uniqueColors(colors);
+};
+
+// CIE Lab (D50, as Adobe stores it) to sRGB.
+const labToRgb = (l: number, a: number, b: number): number[] => {
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+    const inverse = (t: number) => t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29);
+    const x = 0.9642 * inverse(fx);
+    const y = inverse(fy);
+    const z = 0.8249 * inverse(fz);
+    const linear = [
+        3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+        -0.9787684 * x + 1.9161415 * y + 0.0334540 * z,
+        0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+    ];
+    return linear.map(c => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(0, c), 1 / 2.4) - 0.055));
+};
+
+/**
+ * Reads the colours of an Adobe swatch exchange file (.ase). RGB, CMYK, grey and Lab swatches are
+ * converted to sRGB; groups are flattened.
+ */
+export const parseAsePalette = (buffer: ArrayBuffer): string[] => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < 12 || view.getUint32(0) !== 0x41534546) throw new Error("This isn't an Adobe swatch exchange file."); // 'ASEF'
+    const blockCount = view.getUint32(8);
+    const colors: string[] = [];
+    let offset = 12;
+    for (let i = 0; i < blockCount && offset + 6 <= buffer.byteLength; i++) {
+        const type = view.getUint16(offset);
+        const length = view.getUint32(offset + 2);
+        const start = offset + 6;
+        offset = start + length;
+        if (type !== 0x0001) continue; // Group start and end blocks carry no colours
+
+        const nameLength = view.getUint16(start); // UTF-16 code units, including the terminator
+        let position = start + 2 + nameLength * 2;
+        const model = String.fromCharCode(...new Uint8Array(buffer, position, 4));
+        position += 4;
+        const read = (count: number) => Array.from({ length: count }, (_, j) => view.getFloat32(position + j * 4));
+        switch (model) {
+            case 'RGB ': {
+                const [r, g, b] = read(3);
+                colors.push(toHex(r * 255, g * 255, b * 255));
+                break;
+            }
+            case 'CMYK': {
+                const [c, m, y, k] = read(4);
+                colors.push(toHex(255 * (1 - c) * (1 - k), 255 * (1 - m) * (1 - k), 255 * (1 - y) * (1 - k)));
+                break;
+            }
+            case 'Gray': {
+                const [gray] = read(1);
+                colors.push(toHex(gray * 255, gray * 255, gray * 255));
+                break;
+            }
+            case 'LAB ': {
+                const [l, a, b] = read(3);
+                const [r, g, bl] = labToRgb(l * 100, a, b);
+                colors.push(toHex(r, g, bl));
+                break;
+            }
+        }
+    }
+    return uniqueColors(colors);
+};
+
+/**
+ * Reads a brand palette from an uploaded file: an Adobe swatch exchange file (.ase), a GIMP palette (.gpl),
+ * or any text file listing hex colours.
+ * @returns A promise that resolves to the colours as `#rrggbb` strings.
+ */
+export const parsePaletteFile = async (file: File): Promise<string[]> => {
+    const name = file.name.toLowerCase();
+    const colors = name.endsWith('.ase')
+        ? parseAsePalette(await file.arrayBuffer())
+        : name.endsWith('.gpl')
+            ? parseGplPalette(await file.text())
+            : parseHexPalette(await file.text());
+    if (colors.length === 0) throw new Error("No colours were found in this file.");
+    return colors;
+};
+
+/**
+ * Converts `#rrggbb` colours to the flat `[r, g, b, ...]` array gif.js expects.
+ */
+export const hexPaletteToRgb = (colors: string[]): number[] =>
+    colors.flatMap(color => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16)));
+
+/**
+ * Picks the palette a set of frames is encoded with.
+ * @param frames The frames, used to compute a shared palette.
+ * @param settings The palette mode and brand palette.
+ * @param size The number of colours in a computed palette.
+ * @returns The palette as a flat `[r, g, b, ...]` array, or undefined to let each frame pick its own.
+ */
+export const resolvePalette = (
+    frames: ImageData[],
+    settings: Pick<EncodingSettings, 'paletteMode' | 'brandPalette'>,
+    size = 256
+): number[] | undefined => {
+    if (settings.paletteMode === 'brand' && settings.brandPalette.length > 0) return hexPaletteToRgb(settings.brandPalette);
+    if (settings.paletteMode === 'global' || size < 256) return buildMedianCutPalette(frames, size);
+    return undefined;
+};
+
+/**
+ * Picks the palette frames handed to an encoder are encoded with, like `resolvePalette`. A computed
+ * palette samples the frames one at a time, so they never have to be loaded all at once.
+ * @param frames The frames, used to compute a shared palette.
+ * @param settings The palette mode and brand palette.
+ * @param size The number of colours in a computed palette.
+ * @returns A promise that resolves to the palette, or undefined to let each frame pick its own.
+ */
+export const resolveEncoderPalette = async (
+    frames: EncoderFrames,
+    settings: Pick<EncodingSettings, 'paletteMode' | 'brandPalette'>,
+    size = 256
+): Promise<number[] | undefined> => {
+    if (settings.paletteMode === 'brand' && settings.brandPalette.length > 0) return hexPaletteToRgb(settings.brandPalette);
+    if (settings.paletteMode !== 'global' && size >= 256) return undefined;
+    const count = frames.delays.length;
+    if (count === 0) return [0, 0, 0];
+    const first = await frames.getFrame(0);
+    // All frames of an encode have the same size.
+    const sampler = createPixelSampler(count * first.width * first.height);
+    sampler.add(first);
+    for (let i = 1; i < count; i++) {
+        sampler.add(await frames.getFrame(i));
+    }
+    return medianCut(sampler.samples, size);
+};
+
+/**
+ * Maps a frame onto a fixed palette the way the GIF encoder will, for previews.
+ * @param frame The frame to quantize.
+ * @param palette The palette as a flat `[r, g, b, ...]` array.
+ * @param dither The dithering to apply.
+ * @returns A new frame that only uses palette colours.
+ */
+export const quantizeFrame = (frame: ImageData, palette: number[], dither: DitherMethod): ImageData => {
+    const { width, height } = frame;
+    const output = new ImageData(width, height);
+    const colorCount = Math.floor(palette.length / 3);
+    if (colorCount === 0) return output;
+
+    const nearest = new Map<number, number>();
+    const findNearest = (r: number, g: number, b: number) => {
+        const packed = (r << 16) | (g << 8) | b;
+        const cached = nearest.get(packed);
+        if (cached !== undefined) return cached;
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let i = 0; i < colorCount; i++) {
+            const dr = r - palette[i * 3];
+            const dg = g - palette[i * 3 + 1];
+            const db = b - palette[i * 3 + 2];
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = i;
+            }
+        }
+        nearest.set(packed, best);
+        return best;
+    };
+
+    const [kernelName, scan] = dither.split('-') as [DitherKernel | 'none', string?];
+    const kernel = kernelName === 'none' ? null : DITHER_KERNELS[kernelName];
+    const serpentine = scan === 'serpentine';
+    // Pixel values with the diffused error added; only needed when dithering.
+    const values = kernel ? Float32Array.from(frame.data) : null;
+
+    for (let y = 0; y < height; y++) {
+        const reverse = serpentine && y % 2 === 1;
+        for (let step = 0; step < width; step++) {
+            const x = reverse ? width - 1 - step : step;
+            const index = (y * width + x) * 4;
+            const source = values ?? frame.data;
+            const r = Math.min(255, Math.max(0, Math.round(source[index])));
+            const g = Math.min(255, Math.max(0, Math.round(source[index + 1])));
+            const b = Math.min(255, Math.max(0, Math.round(source[index + 2])));
+            const color = findNearest(r, g, b) * 3;
+            output.data[index] = palette[color];
+            output.data[index + 1] = palette[color + 1];
+            output.data[index + 2] = palette[color + 2];
+            output.data[index + 3] = frame.data[index + 3];
+
+            if (!kernel || !values) continue;
+            const errors = [r - palette[color], g - palette[color + 1], b - palette[color + 2]];
+            for (const [weight, dx, dy] of kernel) {
+                const tx = x + (reverse ? -dx : dx);
+                const ty = y + dy;
+                if (tx < 0 || tx >= width || ty >= height) continue;
+                const target = (ty * width + tx) * 4;
+                values[target] += errors[0] * weight;
+                values[target + 1] += errors[1] * weight;
+                values[target + 2] += errors[2] * weight;
+            }
+        }
+    }
+    return output;
+};
@@ -0,0 +1,47 @@
+import type { PlaybackSettings } from '../types';
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = { loopCount: 0, direction: 'forward', speed: 1 };
+
+// Choices offered by the playback controls.
+export const LOOP_COUNT_OPTIONS = [
+    { value: 0, label: '∞' },
+    { value: 1, label: '1×' },
+    { value: 2, label: '2×' },
+    { value: 3, label: '3×' },
+    { value: 5, label: '5×' },
+];
+export const SPEED_OPTIONS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3];
+
+// Browsers slow down GIF frames shorter than this to 100ms, so speeding up never goes below it.
+export const MIN_FRAME_DELAY = 20;
+
+/**
+ * Applies a clip's direction and speed to its frames.
+ * Ping-pong plays the frames forward and then back, without repeating the first and last frame.
+ * @param frames The frames in their original order, each with its delay in milliseconds.
+ * @param playback The direction and speed.
+ * @returns New frame objects in playback order; the frame data itself is shared.
+ */
+export const applyPlayback = <T extends { delay: number }>(frames: T[], playback: Pick<PlaybackSettings, 'direction' | 'speed'>): T[] => {
+    const ordered = playback.direction === 'reverse'
+        ? frames.slice().reverse()
+        : playback.direction === 'pingpong'
+            ? [...frames, ...frames.slice(1, -1).reverse()]
+            : frames;
+    const speed = playback.speed > 0 ? playback.speed : 1;
+    return ordered.map(frame => ({ ...frame, delay: Math.max(MIN_FRAME_DELAY, frame.delay / speed) }));
+};
+
+/**
+ * The frames a clip contributes to a combined animation. A combination only loops as a whole, so a
+ * clip's loop count repeats it in place; looping forever counts as playing once.
+ */
+export const getSequenceFrames = <T extends { delay: number }>(frames: T[], playback: PlaybackSettings): T[] => {
+    const played = applyPlayback(frames, playback);
+    return Array.from({ length: Math.max(1, playback.loopCount) }, () => played).flat();
+};
+
+/**
+ * Whether a clip's frames play in their original order once, so frame positions still map to the source.
+ */
+export const isLinearPlayback = (playback: PlaybackSettings) => playback.direction === 'forward' && playback.loopCount <= 1;
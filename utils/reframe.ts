@@ -0,0 +1,172 @@
+import type { AspectPreset, ReframeMode, SplitSettings } from '../types';
+import type { PixelBuffer } from './sceneDetection';
+
+const ASPECT_PRESETS: Record<Exclude<AspectPreset, 'original' | 'custom'>, number> = {
+    '9:16': 9 / 16,
+    '1:1': 1,
+    '4:5': 4 / 5,
+    '16:9': 16 / 9,
+};
+
+const SMART_SMOOTHING = 0.15;      // Share of the new saliency centre blended in per frame. Lower is steadier.
+const SMART_DEAD_ZONE = 0.02;      // Centre shifts smaller than this (as a fraction of the frame) are ignored.
+const MOTION_WEIGHT = 3;           // Motion counts more than texture when looking for the busiest area.
+const MIN_SALIENCY_ENERGY = 1;     // Average per-pixel saliency below which a frame is treated as static.
+
+/**
+ * The geometry of a cropped, scaled frame. Frames are first scaled to `scaledWidth` x `scaledHeight`,
+ * then a `width` x `height` window is cut out of them.
+ */
+export interface CropLayout {
+    scaledWidth: number;
+    scaledHeight: number;
+    width: number;
+    height: number;
+}
+
+export interface CropCentre {
+    x: number; // 0-1, across the frame
+    y: number; // 0-1, down the frame
+}
+
+export interface Reframer {
+    // Returns where the crop window should be centred for this frame.
+    update: (frame: PixelBuffer) => CropCentre;
+    // Forgets the tracked area, e.g. because a new scene starts.
+    reset: () => void;
+}
+
+/**
+ * Returns the width / height ratio the output should have, or null to keep the source's.
+ */
+export const getAspectRatio = (settings: Pick<SplitSettings, 'aspectRatio' | 'customAspectWidth' | 'customAspectHeight'>): number | null => {
+    if (settings.aspectRatio === 'original') return null;
+    if (settings.aspectRatio === 'custom') {
+        const { customAspectWidth, customAspectHeight } = settings;
+        return customAspectWidth > 0 && customAspectHeight > 0 ? customAspectWidth / customAspectHeight : null;
+    }
+    return ASPECT_PRESETS[settings.aspectRatio];
+};
+
+/**
+ * Works out how to scale and crop a video frame for the given settings. The crop is the largest window
+ * of the target aspect ratio that fits the frame; `resolution` limits the larger side of the cropped output.
+ * @param videoWidth The source width.
+ * @param videoHeight The source height.
+ * @param settings The split settings with the resolution and aspect ratio.
+ */
+export const getCropLayout = (
+    videoWidth: number,
+    videoHeight: number,
+    settings: Pick<SplitSettings, 'resolution' | 'aspectRatio' | 'customAspectWidth' | 'customAspectHeight'>
+): CropLayout => {
+    const aspect = getAspectRatio(settings);
+    let cropWidth = videoWidth;
+    let cropHeight = videoHeight;
+    if (aspect !== null) {
+        if (videoWidth / videoHeight > aspect) {
+            cropWidth = videoHeight * aspect;
+        } else {
+            cropHeight = videoWidth / aspect;
+        }
+    }
+
+    const largerDim = Math.max(cropWidth, cropHeight);
+    const scale = settings.resolution !== 'original' && largerDim > settings.resolution ? settings.resolution / largerDim : 1;
+    const scaledWidth = Math.max(1, Math.floor(videoWidth * scale));
+    const scaledHeight = Math.max(1, Math.floor(videoHeight * scale));
+    return {
+        scaledWidth,
+        scaledHeight,
+        width: Math.max(1, Math.min(scaledWidth, Math.floor(cropWidth * scale))),
+        height: Math.max(1, Math.min(scaledHeight, Math.floor(cropHeight * scale))),
+    };
+};
+
+/**
+ * Converts a crop centre into the top-left corner of the crop window, keeping the window inside the frame.
+ */
+export const getCropOffset = (centre: CropCentre, layout: CropLayout): { x: number; y: number } => ({
+    x: Math.round(Math.min(layout.scaledWidth - layout.width, Math.max(0, centre.x * layout.scaledWidth - layout.width / 2))),
+    y: Math.round(Math.min(layout.scaledHeight - layout.height, Math.max(0, centre.y * layout.scaledHeight - layout.height / 2))),
+});
+
+const toLuma = (frame: PixelBuffer): Float32Array => {
+    const { data } = frame;
+    const luma = new Float32Array(data.length / 4);
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+        luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    return luma;
+};
+
+/**
+ * Finds the busiest area of a frame: the centroid of motion since the previous frame plus local contrast.
+ * Squaring the per-pixel saliency lets a single moving subject outweigh a wide, mildly textured background.
+ * @param luma The frame's luma values.
+ * @param previous The previous frame's luma values, or null for the first frame of a scene.
+ * @param width The frame width.
+ * @param height The frame height.
+ * @returns The centre of saliency, or null if the frame is too static to tell.
+ */
+export const findSaliencyCentre = (luma: Float32Array, previous: Float32Array | null, width: number, height: number): CropCentre | null => {
+    let totalWeight = 0;
+    let totalEnergy = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            const right = x < width - 1 ? luma[p + 1] : luma[p];
+            const below = y < height - 1 ? luma[p + width] : luma[p];
+            const contrast = (Math.abs(right - luma[p]) + Math.abs(below - luma[p])) / 2;
+            const motion = previous ? Math.abs(luma[p] - previous[p]) : 0;
+            const saliency = contrast + motion * MOTION_WEIGHT;
+            const weight = saliency * saliency;
+            totalEnergy += saliency;
+            totalWeight += weight;
+            sumX += (x + 0.5) * weight;
+            sumY += (y + 0.5) * weight;
+        }
+    }
+    if (totalWeight === 0 || totalEnergy / (width * height) < MIN_SALIENCY_ENERGY) return null;
+    return { x: sumX / totalWeight / width, y: sumY / totalWeight / height };
+};
+
+/**
+ * Creates a reframer that decides where the crop window sits.
+ * 'center' always crops the middle of the frame. 'smart' follows the busiest area of the current scene,
+ * smoothed over time so the window glides instead of jumping; call `reset` at scene cuts so each scene
+ * finds its own subject.
+ * @param mode The reframe mode.
+ */
+export const createReframer = (mode: ReframeMode): Reframer => {
+    if (mode === 'center') {
+        return { update: () => ({ x: 0.5, y: 0.5 }), reset: () => undefined };
+    }
+
+    let previousLuma: Float32Array | null = null;
+    let centre: CropCentre | null = null;
+
+    return {
+        update: (frame) => {
+            const luma = toLuma(frame);
+            const target = findSaliencyCentre(luma, previousLuma, frame.width, frame.height);
+            previousLuma = luma;
+
+            if (!centre) {
+                centre = target ?? { x: 0.5, y: 0.5 };
+            } else if (target) {
+                const dx = target.x - centre.x;
+                const dy = target.y - centre.y;
+                if (Math.abs(dx) > SMART_DEAD_ZONE) centre = { ...centre, x: centre.x + dx * SMART_SMOOTHING };
+                if (Math.abs(dy) > SMART_DEAD_ZONE) centre = { ...centre, y: centre.y + dy * SMART_SMOOTHING };
+            }
+            return centre;
+        },
+        reset: () => {
+            previousLuma = null;
+            centre = null;
+        },
+    };
+};
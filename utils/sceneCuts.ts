@@ -0,0 +1,67 @@
+import type { GifScene, SceneEncoding } from '../types';
+import type { EncodedScene } from './sceneEncoding';
+import { sliceSourceMoment } from './sourceMoment';
+
+/**
+ * Returns the cut points between scenes: the start frame of every scene except the first.
+ * @param scenes The scenes, in any order.
+ */
+export const getSceneCuts = (scenes: GifScene[]): number[] =>
+    [...scenes].sort((a, b) => a.startFrame - b.startFrame).slice(1).map(scene => scene.startFrame);
+
+/**
+ * Rebuilds scenes after the cut points were edited. Scenes whose frame range didn't change are kept
+ * as they are (including their name, selection and GIF); only new ranges are encoded.
+ * The scenes must cover a contiguous frame range, which is how the splitter produces them.
+ * @param scenes The current scenes.
+ * @param cuts The new cut points, as frame indices.
+ * @param encodeFrames Encodes the frames of a new scene into a GIF, with the encoding of the scene it starts in.
+ * @returns A promise that resolves to the new scenes, ordered by start frame. Scenes that no longer exist
+ * are left for the caller to release, since it knows which of their GIFs and frames it owns.
+ */
+export const rebuildScenesFromCuts = async (
+    scenes: GifScene[],
+    cuts: number[],
+    encodeFrames: (frames: GifScene['frames'], encoding: SceneEncoding) => Promise<EncodedScene>
+): Promise<GifScene[]> => {
+    const ordered = [...scenes].sort((a, b) => a.startFrame - b.startFrame);
+    if (ordered.length === 0) return [];
+
+    const firstFrame = ordered[0].startFrame;
+    const lastFrame = ordered[ordered.length - 1].endFrame;
+    const allFrames = ordered.flatMap(scene => scene.frames);
+
+    const boundaries = [firstFrame, ...new Set(cuts.filter(cut => cut > firstFrame && cut < lastFrame))].sort((a, b) => a - b);
+    boundaries.push(lastFrame);
+
+    const rebuilt: GifScene[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const startFrame = boundaries[i];
+        const endFrame = boundaries[i + 1];
+
+        const unchanged = ordered.find(scene => scene.startFrame === startFrame && scene.endFrame === endFrame);
+        if (unchanged) {
+            rebuilt.push(unchanged);
+            continue;
+        }
+
+        // Name the scene after the one it starts in, so renamed scenes keep a recognisable name.
+        const container = ordered.find(scene => scene.startFrame <= startFrame && scene.endFrame > startFrame) ?? ordered[0];
+        const frames = allFrames.slice(startFrame - firstFrame, endFrame - firstFrame);
+        const { blob, report } = await encodeFrames(frames, container.encoding);
+        rebuilt.push({
+            id: `${startFrame}-${endFrame}`,
+            dataUrl: URL.createObjectURL(blob),
+            frames,
+            isSelected: false,
+            name: container.startFrame === startFrame ? container.name : `${container.name} (split)`,
+            startFrame,
+            endFrame,
+            encoding: container.encoding,
+            encodeReport: report,
+            source: sliceSourceMoment(container.source, startFrame - container.startFrame, endFrame - container.startFrame),
+        });
+    }
+
+    return rebuilt;
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { createSceneCutDetector, edgeChangeRatio, histogramDifference, isFlash, lumaDifference, type PixelBuffer } from './sceneDetection';
+
+// Fixture frames are built from a grey value per pixel.
+const frame = (width: number, height: number, gray: (x: number, y: number) => number): PixelBuffer => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = gray(x, y);
+            data[i + 3] = 255;
+        }
+    }
+    return { data, width, height };
+};
+
+const solid = (value: number) => frame(8, 8, () => value);
+// Dark on the left, light from column `edgeAt` on.
+const split = (edgeAt: number) => frame(16, 8, x => x < edgeAt ? 0 : 255);
+
+describe('lumaDifference', () => {
+    it('is 0 for identical frames', () => {
+        expect(lumaDifference(solid(90), solid(90))).toBe(0);
+    });
+
+    it('is 100 from black to white', () => {
+        expect(lumaDifference(solid(0), solid(255))).toBeCloseTo(100);
+    });
+
+    it('scales with the brightness change', () => {
+        expect(lumaDifference(solid(0), solid(51))).toBeCloseTo(20);
+    });
+});
+
+describe('histogramDifference', () => {
+    it('is 0 for identical frames', () => {
+        expect(histogramDifference(split(8), split(8))).toBe(0);
+    });
+
+    it('is 100 when every pixel changes bin', () => {
+        expect(histogramDifference(solid(0), solid(255))).toBeCloseTo(100);
+    });
+
+    it('ignores where the colours are', () => {
+        expect(histogramDifference(split(8), frame(16, 8, x => x < 8 ? 255 : 0))).toBe(0);
+    });
+});
+
+describe('edgeChangeRatio', () => {
+    it('is 0 for frames without edges', () => {
+        expect(edgeChangeRatio(solid(0), solid(255))).toBe(0);
+    });
+
+    it('tolerates an edge moving by a pixel', () => {
+        expect(edgeChangeRatio(split(8), split(9))).toBe(0);
+    });
+
+    it('is 100 when every edge moves away', () => {
+        expect(edgeChangeRatio(split(4), split(12))).toBe(100);
+    });
+
+    it('is 100 when edges appear in a flat frame', () => {
+        expect(edgeChangeRatio(frame(16, 8, () => 0), split(8))).toBe(100);
+    });
+});
+
+describe('isFlash', () => {
+    it('is a flash when the frame after looks like the frame before', () => {
+        expect(isFlash(solid(20), solid(20), 30)).toBe(true);
+    });
+
+    it('is not a flash when the shot stays changed', () => {
+        expect(isFlash(solid(20), solid(230), 30)).toBe(false);
+    });
+});
+
+describe('createSceneCutDetector', () => {
+    it('reports a cut on the last frame once flushed', () => {
+        const detector = createSceneCutDetector('adaptive', 85);
+        [0, 0, 0, 0].forEach(value => detector.push(solid(value)));
+        // The candidate waits for the next frame to rule out a flash.
+        expect(detector.push(solid(255)).cutAt).toBeNull();
+        expect(detector.flush()).toBe(4);
+        expect(detector.flush()).toBeNull();
+    });
+
+    it('has nothing to flush when cuts are reported straight away', () => {
+        const detector = createSceneCutDetector('luma', 85);
+        detector.push(solid(0));
+        expect(detector.push(solid(255)).cutAt).toBe(1);
+        expect(detector.flush()).toBeNull();
+    });
+});
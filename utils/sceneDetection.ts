@@ -0,0 +1,299 @@
+import type { SceneDetectionStrategy } from '../types';
+
+/**
+ * A low-resolution RGBA frame used for scene detection. This matches the shape of `ImageData`,
+ * so canvas pixels can be passed in directly and fixtures can be built from plain arrays.
+ */
+export interface PixelBuffer {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export interface SceneCutResult {
+    score: number;          // Strategy-specific difference to the previous frame, 0-100.
+    cutAt: number | null;   // Index of the frame that starts a new scene, if one was detected.
+}
+
+export interface SceneCutDetector {
+    push: (frame: PixelBuffer) => SceneCutResult;
+    flush: () => number | null; // Confirms a cut still waiting for later frames once the stream has ended
+}
+
+// The threshold is derived from sensitivity and scaled per strategy, because each score has its own range.
+// At the default sensitivity of 85 this gives 15% for luma, 30% for histograms and 45% for edges.
+const STRATEGY_THRESHOLD_SCALE: Record<SceneDetectionStrategy, number> = {
+    luma: 1,
+    histogram: 2,
+    edges: 3,
+    adaptive: 2,
+};
+
+const HISTOGRAM_BINS = 16;          // Bins per colour channel.
+const EDGE_MAGNITUDE_THRESHOLD = 96; // Sobel magnitude above which a pixel counts as an edge.
+const ADAPTIVE_WINDOW = 8;          // Frames of history used for the adaptive threshold and gradual transitions.
+const ADAPTIVE_DEVIATIONS = 3;      // A hard cut must be this many standard deviations above the recent mean.
+
+/**
+ * Converts the user-facing sensitivity (0-100) into a cut threshold for the given strategy.
+ * @param strategy The detection strategy the threshold is used with.
+ * @param sensitivity Higher values produce a lower threshold and therefore more cuts.
+ * @returns The threshold on the strategy's 0-100 score scale.
+ */
+export const sensitivityToThreshold = (strategy: SceneDetectionStrategy, sensitivity: number): number => {
+    const threshold = (100 - sensitivity) * STRATEGY_THRESHOLD_SCALE[strategy];
+    return Math.min(100, Math.max(1, threshold));
+};
+
+const toGrayscale = (frame: PixelBuffer): Float32Array => {
+    const { data } = frame;
+    const gray = new Float32Array(data.length / 4);
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+        gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    return gray;
+};
+
+/**
+ * Compares two frames by converting them to grayscale and calculating the average pixel difference.
+ * It's fast and effective for hard cuts, but blind to gradual transitions.
+ * @param a Pixels of the first frame.
+ * @param b Pixels of the second frame.
+ * @returns The difference as a percentage.
+ */
+export const lumaDifference = (a: PixelBuffer, b: PixelBuffer): number => {
+    const grayA = toGrayscale(a);
+    const grayB = toGrayscale(b);
+    let diff = 0;
+    for (let i = 0; i < grayA.length; i++) {
+        diff += Math.abs(grayA[i] - grayB[i]);
+    }
+    // Return the difference as a percentage of the max possible difference.
+    return (diff / (255 * grayA.length)) * 100;
+};
+
+const buildHistogram = (frame: PixelBuffer, bins: number): Float32Array => {
+    const { data } = frame;
+    const histogram = new Float32Array(bins * 3);
+    const pixelCount = data.length / 4;
+    const binSize = 256 / bins;
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[Math.floor(data[i] / binSize)]++;
+        histogram[bins + Math.floor(data[i + 1] / binSize)]++;
+        histogram[2 * bins + Math.floor(data[i + 2] / binSize)]++;
+    }
+    for (let i = 0; i < histogram.length; i++) {
+        histogram[i] /= pixelCount;
+    }
+    return histogram;
+};
+
+/**
+ * Compares the colour distribution of two frames. Because it ignores where colours are,
+ * camera and subject motion barely register while a change of shot does.
+ * @param a Pixels of the first frame.
+ * @param b Pixels of the second frame.
+ * @param bins Number of histogram bins per colour channel.
+ * @returns The histogram distance as a percentage (0 = identical distributions).
+ */
+export const histogramDifference = (a: PixelBuffer, b: PixelBuffer, bins: number = HISTOGRAM_BINS): number => {
+    const histA = buildHistogram(a, bins);
+    const histB = buildHistogram(b, bins);
+    let distance = 0;
+    for (let i = 0; i < histA.length; i++) {
+        distance += Math.abs(histA[i] - histB[i]);
+    }
+    // Each channel's L1 distance is at most 2, so the total is at most 6.
+    return (distance / 6) * 100;
+};
+
+const detectEdges = (frame: PixelBuffer): Uint8Array => {
+    const { width, height } = frame;
+    const gray = toGrayscale(frame);
+    const edges = new Uint8Array(width * height);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const gx = -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1]
+                + gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1];
+            const gy = -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]
+                + gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+            edges[i] = Math.sqrt(gx * gx + gy * gy) > EDGE_MAGNITUDE_THRESHOLD ? 1 : 0;
+        }
+    }
+    return edges;
+};
+
+const dilate = (edges: Uint8Array, width: number, height: number): Uint8Array => {
+    const dilated = new Uint8Array(edges.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!edges[y * width + x]) continue;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+                        dilated[ny * width + nx] = 1;
+                    }
+                }
+            }
+        }
+    }
+    return dilated;
+};
+
+/**
+ * Calculates the edge change ratio: the share of edge pixels that appear or disappear between two frames.
+ * Edges that only moved by a pixel are tolerated, so lighting changes and small motion score low.
+ * @param a Pixels of the first frame.
+ * @param b Pixels of the second frame.
+ * @returns The larger of the entering and exiting edge ratios, as a percentage.
+ */
+export const edgeChangeRatio = (a: PixelBuffer, b: PixelBuffer): number => {
+    const { width, height } = a;
+    const edgesA = detectEdges(a);
+    const edgesB = detectEdges(b);
+    const dilatedA = dilate(edgesA, width, height);
+    const dilatedB = dilate(edgesB, width, height);
+
+    let countA = 0, countB = 0, exiting = 0, entering = 0;
+    for (let i = 0; i < edgesA.length; i++) {
+        if (edgesA[i]) {
+            countA++;
+            if (!dilatedB[i]) exiting++;
+        }
+        if (edgesB[i]) {
+            countB++;
+            if (!dilatedA[i]) entering++;
+        }
+    }
+
+    if (countA === 0 && countB === 0) return 0;
+    if (countA === 0 || countB === 0) return 100;
+    return Math.max(exiting / countA, entering / countB) * 100;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardDeviation = (values: number[], avg: number): number =>
+    Math.sqrt(values.reduce((sum, v) => sum + (v - avg) * (v - avg), 0) / values.length);
+
+/**
+ * Decides whether a candidate cut was a single-frame flash: the frame after it looks like the frame before it.
+ * @param before The frame preceding the candidate cut.
+ * @param after The frame following the candidate cut.
+ * @param threshold The cut threshold in use.
+ */
+export const isFlash = (before: PixelBuffer, after: PixelBuffer, threshold: number): boolean =>
+    histogramDifference(before, after) < threshold / 2;
+
+/**
+ * Decides whether the frames across a window form a gradual transition (fade or dissolve):
+ * the two ends differ like a cut, but no single step in between was a hard cut.
+ * @param windowStart The first frame of the window.
+ * @param windowEnd The last frame of the window.
+ * @param stepScores The frame-to-frame scores inside the window.
+ * @param threshold The cut threshold in use.
+ */
+export const isGradualTransition = (windowStart: PixelBuffer, windowEnd: PixelBuffer, stepScores: number[], threshold: number): boolean =>
+    stepScores.every(score => score < threshold) && histogramDifference(windowStart, windowEnd) > threshold;
+
+/**
+ * Creates a stateful detector that is fed one comparison frame at a time.
+ * The scoring itself is done by the pure functions above; the detector only keeps the history they need.
+ * The adaptive strategy reports some cuts with a delay (one frame for flash checks, the length of
+ * the transition for fades and dissolves), so `cutAt` can point to a frame that was pushed earlier.
+ * Call `flush` after the last frame so a cut that was still waiting on later frames is not lost.
+ * @param strategy The detection strategy to use.
+ * @param sensitivity The user-facing sensitivity (0-100).
+ */
+export const createSceneCutDetector = (strategy: SceneDetectionStrategy, sensitivity: number): SceneCutDetector => {
+    const threshold = sensitivityToThreshold(strategy, sensitivity);
+    const history: PixelBuffer[] = [];
+    const scores: number[] = [];
+    let index = -1;
+    let pendingCut: number | null = null;
+    let lastCut = 0;
+    let gradualStart: number | null = null;
+
+    const score = (a: PixelBuffer, b: PixelBuffer): number => {
+        switch (strategy) {
+            case 'histogram':
+            case 'adaptive':
+                return histogramDifference(a, b);
+            case 'edges':
+                return edgeChangeRatio(a, b);
+            default:
+                return lumaDifference(a, b);
+        }
+    };
+
+    const pushAdaptive = (frame: PixelBuffer, frameScore: number): number | null => {
+        const recent = scores.slice(-ADAPTIVE_WINDOW - 1, -1);
+        let cutAt: number | null = null;
+
+        // Confirm or discard the candidate from the previous frame.
+        if (pendingCut !== null) {
+            const before = history[history.length - 3];
+            if (!before || !isFlash(before, frame, threshold)) {
+                cutAt = pendingCut;
+                lastCut = pendingCut;
+            }
+            pendingCut = null;
+        }
+
+        const avg = recent.length > 0 ? mean(recent) : 0;
+        const adaptiveThreshold = Math.max(threshold, avg + ADAPTIVE_DEVIATIONS * standardDeviation(recent, avg));
+        if (frameScore > adaptiveThreshold) {
+            pendingCut = index;
+            gradualStart = null;
+        } else if (cutAt === null && history.length > ADAPTIVE_WINDOW && index - lastCut > ADAPTIVE_WINDOW) {
+            const windowStart = history[history.length - 1 - ADAPTIVE_WINDOW];
+            if (isGradualTransition(windowStart, frame, scores.slice(-ADAPTIVE_WINDOW), threshold)) {
+                if (gradualStart === null) gradualStart = index - ADAPTIVE_WINDOW;
+            } else if (gradualStart !== null) {
+                // The transition has ended; cut in its middle so both scenes get a share of it.
+                cutAt = Math.round((gradualStart + index - 1) / 2);
+                lastCut = index;
+                gradualStart = null;
+            }
+        }
+        return cutAt;
+    };
+
+    return {
+        push: (frame: PixelBuffer): SceneCutResult => {
+            index++;
+            const previous = history[history.length - 1];
+            history.push(frame);
+            if (history.length > ADAPTIVE_WINDOW + 1) history.shift();
+
+            if (!previous) {
+                scores.push(0);
+                return { score: 0, cutAt: null };
+            }
+
+            const frameScore = score(previous, frame);
+            scores.push(frameScore);
+            if (scores.length > ADAPTIVE_WINDOW + 1) scores.shift();
+
+            if (strategy === 'adaptive') {
+                return { score: frameScore, cutAt: pushAdaptive(frame, frameScore) };
+            }
+            return { score: frameScore, cutAt: frameScore > threshold ? index : null };
+        },
+        flush: (): number | null => {
+            // Nothing follows a candidate on the last frame, so it can't turn out to be a flash.
+            let cutAt: number | null = pendingCut;
+            if (cutAt === null && gradualStart !== null) {
+                // The stream ended mid-transition; cut in the middle of what was seen of it.
+                cutAt = Math.round((gradualStart + index) / 2);
+            }
+            pendingCut = null;
+            gradualStart = null;
+            if (cutAt !== null) lastCut = cutAt;
+            return cutAt;
+        },
+    };
+};
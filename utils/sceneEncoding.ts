@@ -0,0 +1,246 @@
+import type { EncoderFrames, EncodingSettings, ExportSettings, GifScene, OutputFormat, SceneEncoding, SceneEncodeReport, StoredFrame } from '../types';
+import { createEncoderFrames, getEncoder } from './encoders';
+import { resolveEncoderPalette } from './palette';
+import { optimizeGif } from './gifOptimizer';
+import { applyPlayback, DEFAULT_PLAYBACK } from './playback';
+import { loadFrame } from './frameStore';
+
+type SceneFrames = GifScene['frames'];
+
+export interface EncodedScene {
+    blob: Blob;
+    report: SceneEncodeReport;
+}
+
+// Target sizes offered in the settings, in bytes.
+export const TARGET_SIZE_OPTIONS = [
+    { value: 0, label: 'No Limit' },
+    { value: 1024 * 1024, label: '1 MB' },
+    { value: 2 * 1024 * 1024, label: '2 MB (Ad networks)' },
+    { value: 5 * 1024 * 1024, label: '5 MB' },
+    { value: 8 * 1024 * 1024, label: '8 MB (Chat apps)' },
+    { value: 15 * 1024 * 1024, label: '15 MB' },
+];
+
+// Steps the target size search may take from the scene's own encoding.
+const TARGET_SCALES = [1, 0.85, 0.7, 0.55, 0.4, 0.3];
+const TARGET_FRAME_STEP_MULTIPLIERS = [1, 2, 3];
+const TARGET_PALETTE_SIZES = [256, 128, 64, 32];
+const TARGET_MAX_QUALITY = 20;
+const MIN_TARGET_RESOLUTION = 64;
+
+/**
+ * The encoding a new scene starts with: the global encoding settings at full size and frame rate.
+ */
+export const getDefaultSceneEncoding = (settings: EncodingSettings): SceneEncoding => ({
+    quality: settings.quality,
+    dither: settings.dither,
+    paletteMode: settings.paletteMode,
+    brandPalette: settings.brandPalette,
+    optimizeFrames: settings.optimizeFrames,
+    lossyTolerance: settings.lossyTolerance,
+    targetSize: settings.targetSize,
+    resolution: 'original',
+    frameStep: 1,
+    paletteSize: 256,
+    playback: DEFAULT_PLAYBACK,
+});
+
+/**
+ * The size a scene's frames are encoded at: scaled down so the larger dimension fits the resolution.
+ * @param frame Any of the scene's stored frames; they all have the same size.
+ * @param resolution The encoding's resolution.
+ */
+const getEncodedSize = (frame: StoredFrame, resolution: SceneEncoding['resolution']) => {
+    const { width, height } = frame;
+    const largerDim = Math.max(width, height);
+    if (resolution === 'original' || largerDim <= resolution) return { width, height };
+    const scale = resolution / largerDim;
+    return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+};
+
+/**
+ * Applies a scene's frame decimation, resolution and playback to its stored frames.
+ * Dropped frames add their delay to the frame before them, so the scene keeps its duration.
+ * Frames are only loaded from the frame store, and scaled, when the encoder gets to them.
+ * @param frames The scene's stored frames.
+ * @param encoding The scene's encoding.
+ * @returns The frames to encode.
+ */
+export const prepareSceneFrames = (frames: SceneFrames, encoding: Pick<SceneEncoding, 'resolution' | 'frameStep' | 'playback'>): EncoderFrames => {
+    const step = Math.max(1, Math.floor(encoding.frameStep));
+    const keptFrames: SceneFrames = [];
+    frames.forEach((frame, i) => {
+        if (i % step === 0) {
+            keptFrames.push({ ...frame });
+        } else {
+            keptFrames[keptFrames.length - 1].delay += frame.delay;
+        }
+    });
+    const played = applyPlayback(keptFrames, encoding.playback);
+    if (frames.length === 0) return createEncoderFrames(played, ({ frame }) => loadFrame(frame));
+
+    const { width, height } = frames[0].frame;
+    const target = getEncodedSize(frames[0].frame, encoding.resolution);
+    if (target.width === width && target.height === height) return createEncoderFrames(played, ({ frame }) => loadFrame(frame));
+
+    const sourceCanvas = document.createElement('canvas');
+    sourceCanvas.width = width;
+    sourceCanvas.height = height;
+    const targetCanvas = document.createElement('canvas');
+    targetCanvas.width = target.width;
+    targetCanvas.height = target.height;
+    const sourceCtx = sourceCanvas.getContext('2d');
+    const targetCtx = targetCanvas.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx || !targetCtx) throw new Error("Could not get canvas context.");
+
+    // Enable high-quality image smoothing
+    targetCtx.imageSmoothingEnabled = true;
+    targetCtx.imageSmoothingQuality = 'high';
+
+    return createEncoderFrames(played, async ({ frame }) => {
+        sourceCtx.putImageData(await loadFrame(frame), 0, 0);
+        targetCtx.drawImage(sourceCanvas, 0, 0, target.width, target.height);
+        return targetCtx.getImageData(0, 0, target.width, target.height);
+    });
+};
+
+const encodeWith = async (
+    frames: SceneFrames,
+    encoding: SceneEncoding,
+    signal?: AbortSignal
+): Promise<Omit<EncodedScene, 'report'> & { resolution: number, unoptimizedSize: number }> => {
+    if (frames.length === 0) throw new Error('Cannot encode a GIF without frames.');
+    const { quality, dither, paletteSize, playback } = encoding;
+    const prepared = prepareSceneFrames(frames, encoding);
+    const palette = await resolveEncoderPalette(prepared, encoding, paletteSize);
+    const encoded = await getEncoder('gif').encode(prepared, { quality, dither, palette, loopCount: playback.loopCount, signal });
+    const blob = encoding.optimizeFrames ? await optimizeGif(encoded, encoding.lossyTolerance, signal) : encoded;
+    const { width, height } = getEncodedSize(frames[0].frame, encoding.resolution);
+    return { blob, resolution: Math.max(width, height), unoptimizedSize: encoded.size };
+};
+
+/**
+ * Lists the encodings the target size search can choose from, from the largest expected file to the smallest.
+ * Expected size is modelled as proportional to pixel count, roughly to frame count, and to the bits
+ * needed per palette index.
+ * @param encoding The scene's own encoding, which is always the first candidate.
+ * @param largerDim The larger dimension of the scene's stored frames.
+ */
+export const getTargetSizeCandidates = (encoding: SceneEncoding, largerDim: number): SceneEncoding[] => {
+    const baseResolution = encoding.resolution === 'original' ? largerDim : Math.min(encoding.resolution, largerDim);
+    const candidates: { encoding: SceneEncoding; expectedSize: number }[] = [];
+
+    for (const scale of TARGET_SCALES) {
+        const resolution = Math.round(baseResolution * scale);
+        if (scale < 1 && resolution < MIN_TARGET_RESOLUTION) continue;
+        for (const multiplier of TARGET_FRAME_STEP_MULTIPLIERS) {
+            // A brand palette is fixed, so only a computed palette can shrink.
+            const paletteSizes = encoding.paletteMode === 'brand'
+                ? [encoding.paletteSize]
+                : TARGET_PALETTE_SIZES.filter(size => size <= encoding.paletteSize);
+            for (const paletteSize of paletteSizes) {
+                for (const quality of [...new Set([encoding.quality, Math.max(encoding.quality, TARGET_MAX_QUALITY)])]) {
+                    candidates.push({
+                        encoding: {
+                            ...encoding,
+                            quality,
+                            resolution: scale === 1 ? encoding.resolution : resolution,
+                            frameStep: encoding.frameStep * multiplier,
+                            paletteSize,
+                        },
+                        expectedSize: scale * scale * Math.pow(1 / multiplier, 0.85) * (Math.log2(paletteSize) / 8),
+                    });
+                }
+            }
+        }
+    }
+    // The sort is stable, so the scene's own encoding stays first.
+    return candidates.sort((a, b) => b.expectedSize - a.expectedSize).map(candidate => candidate.encoding);
+};
+
+/**
+ * Encodes a scene's stored frames with the scene's own encoding. With a target size, the candidates from
+ * `getTargetSizeCandidates` are binary-searched for the least reduced encoding whose GIF fits.
+ * @param frames The scene's stored frames, at the resolution they were split at.
+ * @param encoding The encoding to apply.
+ * @param signal Cancels the encode when aborted.
+ * @returns A promise that resolves to the GIF blob and the parameters it was encoded with.
+ */
+export const encodeSceneFrames = async (frames: SceneFrames, encoding: SceneEncoding, signal?: AbortSignal): Promise<EncodedScene> => {
+    let attempts = 0;
+    const attempt = async (candidate: SceneEncoding): Promise<EncodedScene> => {
+        const { blob, resolution, unoptimizedSize } = await encodeWith(frames, candidate, signal);
+        attempts++;
+        return {
+            blob,
+            report: {
+                quality: candidate.quality,
+                resolution,
+                frameStep: candidate.frameStep,
+                paletteSize: candidate.paletteMode === 'brand' && candidate.brandPalette.length > 0 ? candidate.brandPalette.length : candidate.paletteSize,
+                size: blob.size,
+                unoptimizedSize,
+                attempts,
+                fitsTarget: !encoding.targetSize || blob.size <= encoding.targetSize,
+            },
+        };
+    };
+
+    const first = await attempt(encoding);
+    if (first.report.fitsTarget) return first;
+
+    const { width, height } = frames[0].frame;
+    const candidates = getTargetSizeCandidates(encoding, Math.max(width, height));
+    const smallest = await attempt(candidates[candidates.length - 1]);
+    if (!smallest.report.fitsTarget) return smallest;
+
+    // `low` never fits and `high` always does; narrow the gap between them.
+    let low = 0;
+    let high = candidates.length - 1;
+    let best = smallest;
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        const result = await attempt(candidates[middle]);
+        if (result.report.fitsTarget) {
+            high = middle;
+            best = result;
+        } else {
+            low = middle;
+        }
+    }
+    return { blob: best.blob, report: { ...best.report, attempts } };
+};
+
+// Scene exports in other formats. Keyed by the scene's encode report, which is replaced whenever the
+// scene's GIF is, so renaming or selecting a scene keeps its exports.
+const exportCache = new WeakMap<SceneEncodeReport, Map<string, Promise<Blob>>>();
+
+/**
+ * Exports a scene in an output format, using the frames, resolution, quality and playback its GIF ended up with.
+ * Results are cached per scene and format.
+ * @param scene The scene to export.
+ * @param format The output format.
+ * @param settings The export settings, such as how often video formats repeat the scene.
+ * @returns A promise that resolves to the exported file.
+ */
+export const exportScene = (scene: GifScene, format: OutputFormat, settings: ExportSettings): Promise<Blob> => {
+    const exports = exportCache.get(scene.encodeReport) ?? new Map<string, Promise<Blob>>();
+    exportCache.set(scene.encodeReport, exports);
+    const encoder = getEncoder(format);
+    const { dither, playback } = scene.encoding;
+    // A scene that plays a set number of times is written out that often in video formats too.
+    const loops = encoder.isVideo ? playback.loopCount || settings.videoLoops : 1;
+    const key = `${format}:${loops}`;
+    const cached = exports.get(key);
+    if (cached) return cached;
+
+    const { quality, resolution, frameStep } = scene.encodeReport;
+    const exported = format === 'gif'
+        ? fetch(scene.dataUrl).then(response => response.blob())
+        : encoder.encode(prepareSceneFrames(scene.frames, { resolution, frameStep, playback }), { quality, dither, loopCount: playback.loopCount, loops });
+    // Failed exports can be retried.
+    exported.catch(() => exports.delete(key));
+    exports.set(key, exported);
+    return exported;
+};
@@ -0,0 +1,110 @@
+import type { SourceMoment } from '../types';
+
+/**
+ * Describes a run of processed frames as a moment in the source video.
+ * @param source The video's name and the link it was fetched from, if any.
+ * @param rangeStart The source time of processed frame 0, in seconds.
+ * @param frameRate The rate frames were taken from the video at.
+ * @param startFrame The first processed frame.
+ * @param endFrame One past the last processed frame.
+ */
+export const createSourceMoment = (
+    source: { name: string; url: string | null },
+    rangeStart: number,
+    frameRate: number,
+    startFrame: number,
+    endFrame: number
+): SourceMoment => {
+    const firstSourceFrame = Math.round(rangeStart * frameRate);
+    return {
+        sourceName: source.name,
+        sourceUrl: source.url,
+        startTime: rangeStart + startFrame / frameRate,
+        endTime: rangeStart + endFrame / frameRate,
+        startFrame: firstSourceFrame + startFrame,
+        endFrame: firstSourceFrame + endFrame,
+        frameRate,
+    };
+};
+
+/**
+ * Returns the part of a moment covering some of its frames.
+ * @param moment The moment to slice.
+ * @param from The first frame to keep, counted from the start of the moment.
+ * @param to One past the last frame to keep.
+ */
+export const sliceSourceMoment = (moment: SourceMoment, from: number, to: number): SourceMoment => ({
+    ...moment,
+    startTime: moment.startTime + from / moment.frameRate,
+    endTime: moment.startTime + to / moment.frameRate,
+    startFrame: moment.startFrame + from,
+    endFrame: moment.startFrame + to,
+});
+
+/**
+ * Works out which source moments end up in a combined GIF.
+ * Each clip's moments are assumed to follow each other frame by frame; frames a clip has
+ * beyond its moments (e.g. an uploaded GIF with no known source) contribute nothing.
+ * Reordered clips (reversed, ping-pong or repeated) keep their moments whole when any of their frames is kept.
+ * @param clips The combined clips in playback order, with their frame counts and moments.
+ * @param trimStart The first combined frame that is kept.
+ * @param trimEnd One past the last combined frame that is kept.
+ * @returns The kept moments, in playback order.
+ */
+export const trimSourceMoments = (
+    clips: { frameCount: number; sources?: SourceMoment[]; isReordered?: boolean }[],
+    trimStart: number,
+    trimEnd: number
+): SourceMoment[] => {
+    const kept: SourceMoment[] = [];
+    let clipOffset = 0;
+    for (const clip of clips) {
+        if (clip.isReordered) {
+            if (trimStart < clipOffset + clip.frameCount && trimEnd > clipOffset) kept.push(...(clip.sources ?? []));
+            clipOffset += clip.frameCount;
+            continue;
+        }
+        let momentOffset = clipOffset;
+        for (const moment of clip.sources ?? []) {
+            const length = Math.max(0, Math.min(moment.endFrame - moment.startFrame, clipOffset + clip.frameCount - momentOffset));
+            const from = Math.max(trimStart, momentOffset) - momentOffset;
+            const to = Math.min(trimEnd, momentOffset + length) - momentOffset;
+            if (to > from) kept.push(sliceSourceMoment(moment, from, to));
+            momentOffset += length;
+        }
+        clipOffset += clip.frameCount;
+    }
+    return kept;
+};
+
+/**
+ * Builds a link that opens the source at the moment's start, when the video came from a link.
+ * Direct video files get a media fragment (`#t=start,end`); pages such as YouTube get a `t` parameter.
+ * @returns The link, or null if the source was a local file.
+ */
+export const getSourceMomentLink = (moment: SourceMoment): string | null => {
+    if (!moment.sourceUrl) return null;
+    try {
+        const url = new URL(moment.sourceUrl);
+        if (/\.(mp4|webm|mov|ogg)$/i.test(url.pathname)) {
+            url.hash = `t=${moment.startTime.toFixed(1)},${moment.endTime.toFixed(1)}`;
+        } else {
+            url.searchParams.delete('start');
+            url.searchParams.set('t', `${Math.floor(moment.startTime)}s`);
+        }
+        return url.toString();
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Formats a moment's time range, e.g. `0:12.5–0:15.0`.
+ */
+export const formatSourceMoment = (moment: SourceMoment): string => {
+    const format = (seconds: number) => {
+        const minutes = Math.floor(seconds / 60);
+        return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+    };
+    return `${format(moment.startTime)}–${format(moment.endTime)}`;
+};
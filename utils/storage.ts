@@ -3,7 +3,7 @@ import { initializeApp } from 'firebase/app';
 import { getFirestore, collection, addDoc, getDocs, query, orderBy, doc, updateDoc } from 'firebase/firestore';
 import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { getAuth, signInWithPopup, GoogleAuthProvider, signOut, onAuthStateChanged, User } from 'firebase/auth';
-import type { LibraryItem } from '../types';
+import type { LibraryItem, SourceMoment } from '../types';
 
 // ------------------------------------------------------------------
 // FIREBASE CONFIGURATION
@@ -200,7 +200,7 @@ export const getCurrentUser = (): User | null => {
 
 // --- Storage Functions ---
 
-export const saveToLibrary = async (blob: Blob, name: string, category: string): Promise<void> => {
+export const saveToLibrary = async (blob: Blob, name: string, category: string, sources: SourceMoment[] = []): Promise<void> => {
     const user = getCurrentUser();
     
     if (!user) {
@@ -225,7 +225,8 @@ export const saveToLibrary = async (blob: Blob, name: string, category: string):
                 createdAt: Date.now(),
                 userId: user.uid,
                 userName: user.displayName || 'Anonymous',
-                userPhoto: user.photoURL || null
+                userPhoto: user.photoURL || null,
+                sources: sources, // Lets the library link back to the source moment
             });
 
         } catch (error) {
@@ -242,7 +243,8 @@ export const saveToLibrary = async (blob: Blob, name: string, category: string):
                     url: URL.createObjectURL(blob), // Works for session
                     category,
                     categories: [category],
-                    createdAt: Date.now()
+                    createdAt: Date.now(),
+                    sources
                 };
                 localMockItems.unshift(newItem); // Add to top
                 resolve();
@@ -271,7 +273,8 @@ export const getLibraryItems = async (): Promise<LibraryItem[]> => {
                     url: data.url,
                     category: categories[0], // Primary category for legacy display
                     categories: categories,
-                    createdAt: data.createdAt || 0
+                    createdAt: data.createdAt || 0,
+                    sources: Array.isArray(data.sources) ? data.sources : []
                 });
             });
             
@@ -0,0 +1,48 @@
+/**
+ * Parses a timestamp like `90`, `90s`, `1m30s`, `1h2m3s` or `1:30` into seconds.
+ * @param value The timestamp as found in a URL parameter.
+ * @returns The time in seconds, or null if the value isn't a timestamp.
+ */
+export const parseTimestamp = (value: string): number | null => {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?s?$/.test(trimmed)) {
+        return parseFloat(trimmed);
+    }
+    const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+    if (units && (units[1] || units[2] || units[3])) {
+        return Number(units[1] || 0) * 3600 + Number(units[2] || 0) * 60 + Number(units[3] || 0);
+    }
+    const clock = trimmed.match(/^(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)$/);
+    if (clock) {
+        return Number(clock[1] || 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    }
+    return null;
+};
+
+/**
+ * Reads a start time from a pasted video URL, e.g. YouTube's `?t=1m30s`, `?start=90` or a media fragment `#t=90`.
+ * @param url The URL as pasted by the user.
+ * @returns The start time in seconds, or null if the URL doesn't specify one.
+ */
+export const parseStartTimeFromUrl = (url: string): number | null => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+    // Media fragments may specify a range (`#t=10,20`); only the start is used here.
+    const hashParams = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+    const candidates = [
+        parsed.searchParams.get('t'),
+        parsed.searchParams.get('start'),
+        hashParams.get('t')?.split(',')[0] ?? null,
+        hashParams.get('start'),
+    ];
+    for (const candidate of candidates) {
+        if (candidate === null) continue;
+        const seconds = parseTimestamp(candidate);
+        if (seconds !== null) return seconds;
+    }
+    return null;
+};
@@ -0,0 +1,134 @@
+import type { Transition, TransitionType } from '../types';
+
+export const DEFAULT_TRANSITION: Transition = { type: 'cut', duration: 500, color: '#000000' };
+
+// Choices offered between clips.
+export const TRANSITION_TYPE_OPTIONS: { value: TransitionType; label: string }[] = [
+    { value: 'cut', label: 'Cut' },
+    { value: 'crossfade', label: 'Crossfade' },
+    { value: 'dip', label: 'Dip to Colour' },
+    { value: 'slide', label: 'Slide' },
+    { value: 'wipe', label: 'Wipe' },
+];
+export const TRANSITION_DURATION_OPTIONS = [200, 300, 500, 800, 1000, 1500];
+
+// A frame of a combined sequence. During a transition it also names the outgoing clip's frame to blend with.
+export type SequenceFrame<T> = T & {
+    clipId: string;
+    transition?: { from: T; fromClipId: string; progress: number; settings: Transition };
+};
+
+/**
+ * Joins clips into one frame sequence, with transitions between them.
+ * A transition replaces the outgoing clip's last frames with the incoming clip's first frames, each blended
+ * with the outgoing frame showing at the same moment. Transitions never take more than half of either clip.
+ * @param clips The clips in order, with their frames already in playback order.
+ * @param transitions The transition into each clip, by clip id; clips without one start with a cut.
+ * @returns The combined frames, every one of which is an output frame.
+ */
+export const buildSequence = <T extends { delay: number }>(
+    clips: { id: string; frames: T[] }[],
+    transitions: Record<string, Transition>
+): SequenceFrame<T>[] => {
+    const sequence: SequenceFrame<T>[] = [];
+    let previous: { id: string; frames: T[] } | null = null;
+
+    for (const clip of clips) {
+        const transition = transitions[clip.id];
+        if (!previous || !transition || transition.type === 'cut' || clip.frames.length < 2 || previous.frames.length < 2) {
+            sequence.push(...clip.frames.map(frame => ({ ...frame, clipId: clip.id })));
+            previous = clip;
+            continue;
+        }
+
+        const clipDuration = (frames: T[]) => frames.reduce((total, frame) => total + frame.delay, 0);
+        const duration = Math.min(transition.duration, clipDuration(previous.frames) / 2, clipDuration(clip.frames) / 2);
+
+        // The outgoing clip's frames that fall within the transition, with their start times in it.
+        const tail: { frame: T; start: number }[] = [];
+        let tailTime = 0;
+        while (tail.length < previous.frames.length - 1 && tailTime < duration) {
+            const frame = previous.frames[previous.frames.length - 1 - tail.length];
+            tailTime += frame.delay;
+            tail.unshift({ frame, start: 0 });
+        }
+        let start = duration - tailTime;
+        for (const entry of tail) {
+            entry.start = start;
+            start += entry.frame.delay;
+        }
+        sequence.splice(sequence.length - tail.length, tail.length);
+
+        // The incoming clip's frames that fall within the transition are blended with the outgoing ones.
+        let headTime = 0;
+        clip.frames.forEach((frame, i) => {
+            if (headTime < duration && i < clip.frames.length - 1) {
+                const from = tail.reduce((current, entry) => entry.start <= headTime ? entry : current, tail[0]).frame;
+                const progress = Math.min(1, (headTime + frame.delay / 2) / duration);
+                sequence.push({ ...frame, clipId: clip.id, transition: { from, fromClipId: previous!.id, progress, settings: transition } });
+            } else {
+                sequence.push({ ...frame, clipId: clip.id });
+            }
+            headTime += frame.delay;
+        });
+        previous = clip;
+    }
+    return sequence;
+};
+
+const parseHexColor = (color: string) => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16) || 0);
+
+/**
+ * Draws one frame of a transition. Both frames must already be laid out at the same size.
+ * @param from The outgoing clip's frame.
+ * @param to The incoming clip's frame.
+ * @param progress How far the transition is, from 0 (all `from`) to 1 (all `to`).
+ * @param transition The kind of transition.
+ */
+export const blendTransitionFrame = (from: ImageData, to: ImageData, progress: number, transition: Transition): ImageData => {
+    const { width, height } = to;
+    const output = new ImageData(width, height);
+    const out = output.data;
+    const a = from.data;
+    const b = to.data;
+
+    switch (transition.type) {
+        case 'crossfade':
+            for (let i = 0; i < out.length; i++) out[i] = a[i] + (b[i] - a[i]) * progress;
+            break;
+        case 'dip': {
+            // Fade out to the colour over the first half, and in from it over the second.
+            const color = parseHexColor(transition.color);
+            const source = progress < 0.5 ? a : b;
+            const amount = progress < 0.5 ? progress * 2 : (1 - progress) * 2;
+            for (let i = 0; i < out.length; i += 4) {
+                for (let c = 0; c < 3; c++) out[i + c] = source[i + c] + (color[c] - source[i + c]) * amount;
+                out[i + 3] = 255;
+            }
+            break;
+        }
+        case 'slide': {
+            // The incoming frame pushes the outgoing one out to the left.
+            const offset = Math.round(progress * width);
+            for (let y = 0; y < height; y++) {
+                const row = y * width * 4;
+                out.set(a.subarray(row + offset * 4, row + width * 4), row);
+                out.set(b.subarray(row, row + offset * 4), row + (width - offset) * 4);
+            }
+            break;
+        }
+        case 'wipe': {
+            // The incoming frame is revealed from left to right.
+            const edge = Math.round(progress * width);
+            for (let y = 0; y < height; y++) {
+                const row = y * width * 4;
+                out.set(b.subarray(row, row + edge * 4), row);
+                out.set(a.subarray(row + edge * 4, row + width * 4), row + edge * 4);
+            }
+            break;
+        }
+        default:
+            out.set(b);
+    }
+    return output;
+};
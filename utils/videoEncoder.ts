@@ -0,0 +1,160 @@
+import type { Encoder, EncoderFrames, EncoderOptions } from '../types';
+import { muxWebm, type MuxerChunk } from './webmMuxer';
+import { muxMp4 } from './mp4Muxer';
+
+// ------------------------------------------------------------------
+// VIDEO ENCODERS
+// Silent WebM and MP4 clips encoded with WebCodecs. Frames keep their exact delays as timestamps, and
+// since video players don't loop by themselves, the frames are written out `loops` times.
+// ------------------------------------------------------------------
+
+interface VideoCodec {
+    codec: string;   // WebCodecs codec string
+    muxerId: string; // Codec ID in the container
+}
+
+const WEBM_CODECS: VideoCodec[] = [
+    { codec: 'vp09.00.40.08', muxerId: 'V_VP9' },
+    { codec: 'vp8', muxerId: 'V_VP8' },
+];
+// High, Main and Baseline profiles at level 4.0, which covers 1080p.
+const MP4_CODECS: VideoCodec[] = [
+    { codec: 'avc1.640028', muxerId: 'avc1' },
+    { codec: 'avc1.4d0028', muxerId: 'avc1' },
+    { codec: 'avc1.420028', muxerId: 'avc1' },
+];
+const KEY_FRAME_INTERVAL_MS = 2000;
+const MAX_QUEUED_FRAMES = 8;
+const MAX_BITS_PER_PIXEL = 0.3;
+const MIN_BITS_PER_PIXEL = 0.08;
+const MIN_BITRATE = 200000;
+
+/**
+ * Maps the shared colour quality (1 best to 20 smallest, as gif.js uses it) onto a bitrate.
+ */
+const getBitrate = (quality: number, width: number, height: number, frameRate: number) => {
+    const t = (Math.min(20, Math.max(1, quality)) - 1) / 19;
+    const bitsPerPixel = MAX_BITS_PER_PIXEL - t * (MAX_BITS_PER_PIXEL - MIN_BITS_PER_PIXEL);
+    return Math.max(MIN_BITRATE, Math.round(width * height * frameRate * bitsPerPixel));
+};
+
+const findSupportedConfig = async (codecs: VideoCodec[], config: Omit<VideoEncoderConfig, 'codec'>) => {
+    for (const codec of codecs) {
+        const { supported } = await VideoEncoder.isConfigSupported({ ...config, codec: codec.codec });
+        if (supported) return codec;
+    }
+    return null;
+};
+
+/**
+ * Encodes frames with WebCodecs into a video clip.
+ * @param frames The frames to encode, each with its delay in milliseconds.
+ * @param options The colour quality, loop count and optional progress and cancellation hooks.
+ * @param codecs The codecs to try, in order of preference.
+ * @param mux Builds the container file from the encoded frames.
+ */
+const encodeVideo = async (
+    frames: EncoderFrames,
+    options: EncoderOptions,
+    codecs: VideoCodec[],
+    mux: (chunks: MuxerChunk[], codec: VideoCodec, description: Uint8Array | null, width: number, height: number) => Blob
+): Promise<Blob> => {
+    const count = frames.delays.length;
+    if (count === 0) throw new Error('Cannot encode a video without frames.');
+    if (typeof VideoEncoder === 'undefined') throw new Error("This browser can't encode video. Try a recent version of Chrome, Edge or Safari.");
+
+    // Most codecs need even dimensions; drop the last row or column if needed.
+    const first = await frames.getFrame(0);
+    const width = Math.max(2, first.width & ~1);
+    const height = Math.max(2, first.height & ~1);
+    const loops = Math.max(1, Math.floor(options.loops ?? 1));
+    const loopDuration = frames.delays.reduce((total, delay) => total + delay, 0);
+    const frameRate = count / Math.max(0.001, loopDuration / 1000);
+    const config = { width, height, bitrate: getBitrate(options.quality, width, height, frameRate), framerate: frameRate };
+
+    const codec = await findSupportedConfig(codecs, config);
+    if (!codec) throw new Error("This browser can't encode this video format. Try another format.");
+
+    const chunks: MuxerChunk[] = [];
+    let description: Uint8Array | null = null;
+    let encodeError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            const timestamp = Math.round(chunk.timestamp / 1000);
+            chunks.push({ data, timestamp, duration: Math.round((chunk.duration ?? 0) / 1000), isKey: chunk.type === 'key' });
+            const decoderDescription = metadata?.decoderConfig?.description;
+            if (decoderDescription && !description) {
+                description = decoderDescription instanceof ArrayBuffer
+                    ? new Uint8Array(decoderDescription.slice(0))
+                    : new Uint8Array(decoderDescription.buffer.slice(decoderDescription.byteOffset, decoderDescription.byteOffset + decoderDescription.byteLength));
+            }
+        },
+        error: (e) => {
+            encodeError = e instanceof Error ? e : new Error(String(e));
+        },
+    });
+    encoder.configure({ ...config, codec: codec.codec, ...(codec.muxerId === 'avc1' ? { avc: { format: 'avc' as const } } : {}) });
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+
+    // Each loop loads the frames again rather than keeping them all.
+    const totalFrames = count * loops;
+    let time = 0;
+    let lastKeyTime = -Infinity;
+    try {
+        for (let i = 0; i < totalFrames; i++) {
+            if (options.signal?.aborted) throw new Error('Video rendering was cancelled.');
+            if (encodeError) throw encodeError;
+            while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+                await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+            }
+
+            const data = await frames.getFrame(i % count);
+            const delay = frames.delays[i % count];
+            ctx.putImageData(data, 0, 0);
+            // Timestamps are rounded from the running total so they never drift from the delays.
+            const timestamp = Math.round(time * 1000);
+            time += delay;
+            const videoFrame = new VideoFrame(canvas, { timestamp, duration: Math.round(time * 1000) - timestamp });
+            const isKey = time - delay - lastKeyTime >= KEY_FRAME_INTERVAL_MS;
+            if (isKey) lastKeyTime = time - delay;
+            encoder.encode(videoFrame, { keyFrame: isKey });
+            videoFrame.close();
+            options.onProgress?.(((i + 1) / totalFrames) * 0.9);
+        }
+        await encoder.flush();
+        if (encodeError) throw encodeError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+
+    const blob = mux(chunks, codec, description, width, height);
+    options.onProgress?.(1);
+    return blob;
+};
+
+export const webmEncoder: Encoder = {
+    format: 'webm',
+    label: 'WebM',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    isVideo: true,
+    encode: (frames, options) => encodeVideo(frames, options, WEBM_CODECS, (chunks, codec, _description, width, height) =>
+        muxWebm(chunks, codec.muxerId, width, height)),
+};
+
+export const mp4Encoder: Encoder = {
+    format: 'mp4',
+    label: 'MP4',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    isVideo: true,
+    encode: (frames, options) => encodeVideo(frames, options, MP4_CODECS, (chunks, _codec, description, width, height) => {
+        if (!description) throw new Error('The video encoder did not provide its H.264 configuration.');
+        return muxMp4(chunks, description, width, height);
+    }),
+};
@@ -0,0 +1,149 @@
+// ------------------------------------------------------------------
+// WEBM MUXER
+// Writes encoded VP8/VP9 frames into a WebM file with a single video track. The whole file is built in
+// memory, so every element size is known and written up front.
+// ------------------------------------------------------------------
+
+export interface MuxerChunk {
+    data: Uint8Array;
+    timestamp: number; // ms
+    duration: number;  // ms
+    isKey: boolean;
+}
+
+type EbmlValue = number | string | Uint8Array | EbmlElement[];
+
+interface EbmlElement {
+    id: number;
+    value: EbmlValue;
+    isFloat?: boolean;
+}
+
+const MAX_CLUSTER_OFFSET = 32767; // Block timecodes are signed 16-bit offsets from their cluster
+
+const encodeId = (id: number): Uint8Array => {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+    return new Uint8Array(bytes);
+};
+
+// Sizes are always written with 8 bytes, which keeps the writer simple at a few bytes per element.
+const encodeSize = (size: number): Uint8Array => {
+    const bytes = new Uint8Array(8);
+    bytes[0] = 0x01;
+    for (let i = 7, value = size; i > 0; i--, value = Math.floor(value / 256)) bytes[i] = value & 0xff;
+    return bytes;
+};
+
+const encodeUint = (value: number): Uint8Array => {
+    const bytes: number[] = [];
+    do {
+        bytes.unshift(value & 0xff);
+        value = Math.floor(value / 256);
+    } while (value > 0);
+    return new Uint8Array(bytes);
+};
+
+const encodeFloat = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+const writeElement = ({ id, value, isFloat }: EbmlElement): Uint8Array => {
+    let payload: Uint8Array;
+    if (Array.isArray(value)) payload = concat(value.map(writeElement));
+    else if (typeof value === 'string') payload = Uint8Array.from(value, char => char.charCodeAt(0));
+    else if (typeof value === 'number') payload = isFloat ? encodeFloat(value) : encodeUint(value);
+    else payload = value;
+    return concat([encodeId(id), encodeSize(payload.length), payload]);
+};
+
+const createSimpleBlock = (chunk: MuxerChunk, clusterTime: number): EbmlElement => {
+    const header = new Uint8Array(4);
+    header[0] = 0x81;                                   // Track number 1
+    new DataView(header.buffer).setInt16(1, chunk.timestamp - clusterTime);
+    header[3] = chunk.isKey ? 0x80 : 0;
+    return { id: 0xa3, value: concat([header, chunk.data]) };
+};
+
+/**
+ * Builds a WebM file from encoded video frames.
+ * @param chunks The encoded frames in decode order, the first being a key frame.
+ * @param codecId The Matroska codec ID, `V_VP8` or `V_VP9`.
+ * @param width The video width.
+ * @param height The video height.
+ */
+export const muxWebm = (chunks: MuxerChunk[], codecId: string, width: number, height: number): Blob => {
+    const clusters: EbmlElement[] = [];
+    let cluster: EbmlElement[] = [];
+    let clusterTime = 0;
+    for (const chunk of chunks) {
+        // Clusters start at key frames so players can seek, and whenever offsets would overflow.
+        if (cluster.length === 0 || chunk.isKey || chunk.timestamp - clusterTime > MAX_CLUSTER_OFFSET) {
+            if (cluster.length > 0) clusters.push({ id: 0x1f43b675, value: cluster });
+            clusterTime = chunk.timestamp;
+            cluster = [{ id: 0xe7, value: clusterTime }];
+        }
+        cluster.push(createSimpleBlock(chunk, clusterTime));
+    }
+    if (cluster.length > 0) clusters.push({ id: 0x1f43b675, value: cluster });
+
+    const last = chunks[chunks.length - 1];
+    const duration = last ? last.timestamp + last.duration : 0;
+
+    const header = writeElement({
+        id: 0x1a45dfa3, value: [
+            { id: 0x4286, value: 1 },       // EBMLVersion
+            { id: 0x42f7, value: 1 },       // EBMLReadVersion
+            { id: 0x42f2, value: 4 },       // EBMLMaxIDLength
+            { id: 0x42f3, value: 8 },       // EBMLMaxSizeLength
+            { id: 0x4282, value: 'webm' },  // DocType
+            { id: 0x4287, value: 2 },       // DocTypeVersion
+            { id: 0x4285, value: 2 },       // DocTypeReadVersion
+        ]
+    });
+    const segment = writeElement({
+        id: 0x18538067, value: [
+            {
+                id: 0x1549a966, value: [                                // Info
+                    { id: 0x2ad7b1, value: 1000000 },                   // TimecodeScale: timestamps are in ms
+                    { id: 0x4489, value: duration, isFloat: true },     // Duration
+                    { id: 0x4d80, value: 'Gifit' },                     // MuxingApp
+                    { id: 0x5741, value: 'Gifit' },                     // WritingApp
+                ]
+            },
+            {
+                id: 0x1654ae6b, value: [                                // Tracks
+                    {
+                        id: 0xae, value: [                              // TrackEntry
+                            { id: 0xd7, value: 1 },                     // TrackNumber
+                            { id: 0x73c5, value: 1 },                   // TrackUID
+                            { id: 0x83, value: 1 },                     // TrackType: video
+                            { id: 0x9c, value: 0 },                     // FlagLacing
+                            { id: 0x86, value: codecId },               // CodecID
+                            {
+                                id: 0xe0, value: [                      // Video
+                                    { id: 0xb0, value: width },         // PixelWidth
+                                    { id: 0xba, value: height },        // PixelHeight
+                                ]
+                            },
+                        ]
+                    },
+                ]
+            },
+            ...clusters,
+        ]
+    });
+    return new Blob([header, segment], { type: 'video/webm' });
+};
@@ -0,0 +1,125 @@
+import type { Encoder, EncoderFrames, EncoderOptions } from '../types';
+
+// ------------------------------------------------------------------
+// ANIMATED WEBP ENCODER
+// Each frame is compressed by the browser's own WebP encoder, then the still images are muxed into an
+// animated WebP container. Frames are stored whole and replace the previous frame.
+// ------------------------------------------------------------------
+
+// Chunks of a still WebP that hold the image itself; metadata chunks are dropped.
+const IMAGE_CHUNKS = ['ALPH', 'VP8 ', 'VP8L'];
+const MAX_DURATION = 0xffffff; // Frame durations are stored in 24 bits
+const MIN_WEBP_QUALITY = 0.6;
+
+const fourCC = (type: string) => Uint8Array.from(type, char => char.charCodeAt(0));
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+    // Chunks are padded to an even size.
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(fourCC(type));
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+const setUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >> 8) & 0xff;
+    bytes[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+/**
+ * Splits a still WebP file into the chunks that hold its image data.
+ */
+const readImageChunks = (file: Uint8Array): Uint8Array[] => {
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const chunks: Uint8Array[] = [];
+    let offset = 12; // RIFF header and 'WEBP'
+    while (offset + 8 <= file.length) {
+        const type = String.fromCharCode(...file.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        const end = offset + 8 + size + (size % 2);
+        if (IMAGE_CHUNKS.includes(type)) chunks.push(file.subarray(offset, end));
+        offset = end;
+    }
+    return chunks;
+};
+
+/**
+ * Maps the shared colour quality (1 best to 20 smallest, as gif.js uses it) onto WebP's 0-1 scale.
+ */
+const getWebpQuality = (quality: number) => 1 - ((Math.min(20, Math.max(1, quality)) - 1) / 19) * (1 - MIN_WEBP_QUALITY);
+
+/**
+ * Encodes frames into an animated WebP.
+ * @param frames The frames to encode, each with its delay in milliseconds.
+ * @param options The colour quality and loop count, plus optional progress and cancellation hooks.
+ * @returns A promise that resolves to the WebP blob.
+ */
+const encodeWebp = async (frames: EncoderFrames, options: EncoderOptions): Promise<Blob> => {
+    const count = frames.delays.length;
+    if (count === 0) throw new Error('Cannot encode a WebP without frames.');
+    let first: ImageData | null = await frames.getFrame(0);
+    const { width, height } = first;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context.");
+    const quality = getWebpQuality(options.quality);
+
+    const frameChunks: Uint8Array[] = [];
+    let hasAlpha = false;
+    for (let i = 0; i < count; i++) {
+        if (options.signal?.aborted) throw new Error('WebP rendering was cancelled.');
+        const data = first ?? await frames.getFrame(i);
+        first = null;
+        const delay = frames.delays[i];
+        ctx.putImageData(data, 0, 0);
+        const still = await canvas.convertToBlob({ type: 'image/webp', quality });
+        // Browsers without a WebP encoder quietly return a PNG instead.
+        if (still.type !== 'image/webp') throw new Error("This browser can't create WebP images. Try Chrome, Edge or Firefox.");
+
+        const imageChunks = readImageChunks(new Uint8Array(await still.arrayBuffer()));
+        hasAlpha = hasAlpha || imageChunks.some(chunk => String.fromCharCode(...chunk.subarray(0, 4)) !== 'VP8 ');
+
+        const header = new Uint8Array(16);
+        setUint24(header, 0, 0);             // x offset / 2
+        setUint24(header, 3, 0);             // y offset / 2
+        setUint24(header, 6, width - 1);
+        setUint24(header, 9, height - 1);
+        setUint24(header, 12, Math.min(MAX_DURATION, Math.round(delay)));
+        header[15] = 0b10;                   // Don't blend with the previous frame, don't dispose
+        frameChunks.push(createChunk('ANMF', concat([header, ...imageChunks])));
+        options.onProgress?.((i + 1) / count);
+    }
+
+    const features = new Uint8Array(10);
+    features[0] = 0b10 | (hasAlpha ? 0b10000 : 0); // Animation and alpha flags
+    setUint24(features, 4, width - 1);
+    setUint24(features, 7, height - 1);
+    const animation = new Uint8Array(6);     // Transparent background
+    new DataView(animation.buffer).setUint16(4, Math.min(0xffff, options.loopCount ?? 0), true); // 0 loops forever
+
+    const body = concat([fourCC('WEBP'), createChunk('VP8X', features), createChunk('ANIM', animation), ...frameChunks]);
+    const header = new Uint8Array(8);
+    header.set(fourCC('RIFF'));
+    new DataView(header.buffer).setUint32(4, body.length, true);
+    return new Blob([header, body], { type: 'image/webp' });
+};
+
+export const webpEncoder: Encoder = {
+    format: 'webp',
+    label: 'WebP',
+    extension: 'webp',
+    mimeType: 'image/webp',
+    encode: encodeWebp,
+};
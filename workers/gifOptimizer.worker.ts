@@ -0,0 +1,26 @@
+import { optimizeGifBuffer } from '../utils/gifOptimizer';
+
+export interface OptimizerRequest {
+    buffer: ArrayBuffer; // The bytes of the GIF to optimize
+    tolerance: number;
+}
+
+export type OptimizerResponse =
+    | { type: 'done'; gif: Blob | null } // Null when the GIF is left as it is
+    | { type: 'error'; message: string };
+
+// The DOM lib describes `self` as a window, so we type the worker scope we actually use.
+interface OptimizerScope {
+    onmessage: ((event: MessageEvent<OptimizerRequest>) => void) | null;
+    postMessage: (message: OptimizerResponse) => void;
+}
+
+const scope = self as unknown as OptimizerScope;
+
+scope.onmessage = (event) => {
+    try {
+        scope.postMessage({ type: 'done', gif: optimizeGifBuffer(event.data.buffer, event.data.tolerance) });
+    } catch (e: any) {
+        scope.postMessage({ type: 'error', message: e.message || 'GIF optimization failed.' });
+    }
+};
@@ -0,0 +1,144 @@
+import { createSceneCutDetector, type SceneCutDetector } from '../utils/sceneDetection';
+import { createReframer, getCropOffset, type Reframer } from '../utils/reframe';
+import type { SceneDetectionStrategy, ReframeMode } from '../types';
+
+export interface SplitterConfig {
+    scaledWidth: number;  // Size of the incoming bitmaps
+    scaledHeight: number;
+    width: number;        // Size of the cropped frames that end up in the GIFs
+    height: number;
+    comparisonWidth: number;
+    comparisonHeight: number;
+    frameDelay: number;
+    minSceneFrames: number;
+    maxSceneFrames: number;
+    strategy: SceneDetectionStrategy;
+    sensitivity: number;
+    reframe: ReframeMode;
+}
+
+export type SplitterRequest =
+    | ({ type: 'start' } & SplitterConfig)
+    | { type: 'frame'; index: number; bitmap: ImageBitmap }
+    | { type: 'end' };
+
+export interface SplitSceneFrame {
+    buffer: ArrayBuffer; // RGBA pixels of a full-resolution frame.
+    delay: number;
+}
+
+export type SplitterResponse =
+    | { type: 'progress'; processedFrames: number; score: number }
+    | { type: 'scene'; width: number; height: number; startFrame: number; frames: SplitSceneFrame[] }
+    | { type: 'done' }
+    | { type: 'error'; message: string };
+
+// The DOM lib describes `self` as a window, so we type the worker scope we actually use.
+interface SplitterScope {
+    onmessage: ((event: MessageEvent<SplitterRequest>) => void) | null;
+    postMessage: (message: SplitterResponse, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as SplitterScope;
+
+let config: SplitterConfig | null = null;
+let highResCtx: OffscreenCanvasRenderingContext2D | null = null;
+let comparisonCtx: OffscreenCanvasRenderingContext2D | null = null;
+let detector: SceneCutDetector | null = null;
+let reframer: Reframer | null = null;
+let currentSceneFrames: ImageData[] = [];
+let sceneStartIndex = 0;
+let processedFrames = 0;
+
+const postScene = (frames: ImageData[], startFrame: number) => {
+    if (!config || frames.length < config.minSceneFrames) return;
+    const { width, height, frameDelay } = config;
+    const sceneFrames = frames.map(frame => ({ buffer: frame.data.buffer as ArrayBuffer, delay: frameDelay }));
+    // Hand the pixel buffers over instead of copying them; the worker doesn't need them anymore.
+    scope.postMessage({ type: 'scene', width, height, startFrame, frames: sceneFrames }, sceneFrames.map(f => f.buffer));
+};
+
+const start = (nextConfig: SplitterConfig) => {
+    config = nextConfig;
+    const highResCanvas = new OffscreenCanvas(config.width, config.height);
+    const comparisonCanvas = new OffscreenCanvas(config.comparisonWidth, config.comparisonHeight);
+    highResCtx = highResCanvas.getContext('2d', { willReadFrequently: true });
+    comparisonCtx = comparisonCanvas.getContext('2d', { willReadFrequently: true });
+    if (!highResCtx || !comparisonCtx) throw new Error('OffscreenCanvas is not supported in this browser.');
+
+    // Enable high-quality image smoothing
+    highResCtx.imageSmoothingEnabled = true;
+    highResCtx.imageSmoothingQuality = 'high';
+
+    detector = createSceneCutDetector(config.strategy, config.sensitivity);
+    reframer = createReframer(config.reframe);
+    currentSceneFrames = [];
+    sceneStartIndex = 0;
+    processedFrames = 0;
+};
+
+// Some strategies confirm a cut a few frames late, so the cut can fall inside the buffered scene.
+const cutScene = (cutAt: number) => {
+    if (!config || cutAt - sceneStartIndex < config.minSceneFrames) return;
+    const finishedFrames = currentSceneFrames.slice(0, cutAt - sceneStartIndex);
+    currentSceneFrames = currentSceneFrames.slice(cutAt - sceneStartIndex);
+    postScene(finishedFrames, sceneStartIndex);
+    sceneStartIndex = cutAt;
+};
+
+const processFrame = (index: number, bitmap: ImageBitmap) => {
+    if (!config || !highResCtx || !comparisonCtx || !detector || !reframer) throw new Error('Scene splitter received a frame before it was started.');
+    const { width, height, comparisonWidth, comparisonHeight, maxSceneFrames } = config;
+
+    // Capture low-res frame of the whole picture for scene detection and reframing
+    comparisonCtx.drawImage(bitmap, 0, 0, comparisonWidth, comparisonHeight);
+    const comparisonFrame = comparisonCtx.getImageData(0, 0, comparisonWidth, comparisonHeight);
+
+    const { score, cutAt } = detector.push(comparisonFrame);
+    // Each scene looks for its own subject.
+    if (cutAt !== null) reframer.reset();
+    const offset = getCropOffset(reframer.update(comparisonFrame), config);
+
+    // Capture the cropped high-res frame for the GIF
+    highResCtx.drawImage(bitmap, offset.x, offset.y, width, height, 0, 0, width, height);
+    currentSceneFrames.push(highResCtx.getImageData(0, 0, width, height));
+    bitmap.close();
+
+    if (cutAt !== null) cutScene(cutAt);
+
+    // Force a cut once the scene reaches the maximum length.
+    if (currentSceneFrames.length >= maxSceneFrames) {
+        postScene(currentSceneFrames, sceneStartIndex);
+        currentSceneFrames = [];
+        sceneStartIndex = index + 1;
+        reframer.reset();
+    }
+
+    processedFrames++;
+    scope.postMessage({ type: 'progress', processedFrames, score });
+};
+
+scope.onmessage = (event: MessageEvent<SplitterRequest>) => {
+    const message = event.data;
+    try {
+        switch (message.type) {
+            case 'start':
+                start(message);
+                break;
+            case 'frame':
+                processFrame(message.index, message.bitmap);
+                break;
+            case 'end': {
+                const cutAt = detector?.flush() ?? null;
+                if (cutAt !== null) cutScene(cutAt);
+                // Process the last remaining scene
+                postScene(currentSceneFrames, sceneStartIndex);
+                currentSceneFrames = [];
+                scope.postMessage({ type: 'done' });
+                break;
+            }
+        }
+    } catch (e: any) {
+        scope.postMessage({ type: 'error', message: e.message || 'Scene splitting failed.' });
+    }
+};